@@ -0,0 +1,131 @@
+// Registry of action policies: how output activities become the next move.
+// The network picks one in `network.policy.type`, with its parameter values
+// stored alongside. Each policy turns the output activities into a probability
+// per output; the move is then drawn with the network's seeded generator, so
+// exploration is reproducible for a given seed.
+//
+// A policy's `annealed` parameter can follow a schedule over the run, e.g.
+// epsilon falling from 0.3 to 0.01 over the first 5000 moves.
+
+import { createRng } from './random';
+import { OUTPUT_DIRECTIONS } from './network-model';
+
+export const DEFAULT_POLICY = { type: 'argmax' };
+
+const uniform = (n) => Array(n).fill(1 / n);
+
+// Equal share for every output tied for the highest activity
+const greedy = (activities) => {
+  const max = Math.max(...activities);
+  const best = activities.map(a => a === max ? 1 : 0);
+  const count = best.reduce((a, b) => a + b, 0);
+  return best.map(b => b / count);
+};
+
+export const ACTION_POLICIES = {
+  argmax: {
+    name: 'Argmax (random tie-break)',
+    params: [],
+    probabilities: greedy
+  },
+
+  epsilonGreedy: {
+    name: 'Epsilon-greedy',
+    params: [{ key: 'epsilon', label: 'Epsilon', min: 0, max: 1, step: 0.01, default: 0.1 }],
+    annealed: 'epsilon',
+    // Explore uniformly with probability epsilon, otherwise act greedily
+    probabilities: (activities, { epsilon }) => {
+      const explore = uniform(activities.length);
+      return greedy(activities).map((g, i) => (1 - epsilon) * g + epsilon * explore[i]);
+    }
+  },
+
+  softmax: {
+    name: 'Softmax',
+    params: [{ key: 'temperature', label: 'Temperature', min: 0.01, max: 2, step: 0.01, default: 0.2 }],
+    annealed: 'temperature',
+    probabilities: (activities, { temperature }) => {
+      const max = Math.max(...activities);
+      const exps = activities.map(a => Math.exp((a - max) / temperature));
+      const sum = exps.reduce((a, b) => a + b, 0);
+      return exps.map(e => e / sum);
+    }
+  },
+
+  proportional: {
+    name: 'Proportional to activity',
+    params: [],
+    // Silent outputs give no preference, so every move is equally likely
+    probabilities: (activities) => {
+      const positive = activities.map(a => Math.max(0, a));
+      const sum = positive.reduce((a, b) => a + b, 0);
+      return sum > 0 ? positive.map(a => a / sum) : uniform(activities.length);
+    }
+  }
+};
+
+export const ANNEAL_SCHEDULES = {
+  constant: 'Constant',
+  linear: 'Linear',
+  exponential: 'Exponential'
+};
+
+export const DEFAULT_ANNEALING = { schedule: 'constant', final: 0.01, moves: 5000 };
+
+export const getPolicy = (network) => ({ ...DEFAULT_POLICY, ...network.policy });
+
+// Value of a parameter at a move of the run. Exponential schedules need
+// positive endpoints and fall back to linear otherwise.
+const annealedValue = (start, annealing, move) => {
+  const { schedule, final, moves } = { ...DEFAULT_ANNEALING, ...annealing };
+  const progress = moves > 0 ? Math.min(1, move / moves) : 1;
+  if (schedule === 'exponential' && start > 0 && final > 0) {
+    return start * Math.pow(final / start, progress);
+  }
+  if (schedule === 'constant') return start;
+  return start + (final - start) * progress;
+};
+
+// Parameter values of the network's policy at the given move
+export const getPolicyParams = (network, move = 0) => {
+  const policy = getPolicy(network);
+  const definition = ACTION_POLICIES[policy.type];
+  const params = Object.fromEntries(definition.params.map(p => [
+    p.key,
+    policy[p.key] !== undefined ? policy[p.key] : p.default
+  ]));
+  if (definition.annealed) {
+    params[definition.annealed] = annealedValue(params[definition.annealed], policy.annealing, move);
+  }
+  return params;
+};
+
+// Probability of each output being chosen at the given move
+export const getActionProbabilities = (network, move = 0) => {
+  const policy = getPolicy(network);
+  const activities = network.neurons.output.map(n => n.activity);
+  return ACTION_POLICIES[policy.type].probabilities(activities, getPolicyParams(network, move));
+};
+
+// Draw the next move. Returns the move, how likely it was, and the network
+// with its generator advanced. A network without outputs picks one of the
+// environment's actions at random.
+export const chooseAction = (network, move = 0, environmentActions = OUTPUT_DIRECTIONS) => {
+  const outputs = network.neurons.output;
+  const actions = outputs.length ? outputs.map(n => n.id) : environmentActions;
+  const probabilities = outputs.length ? getActionProbabilities(network, move) : uniform(actions.length);
+
+  const rng = createRng(network.rngState);
+  let r = rng.next();
+  let index = probabilities.findIndex(p => (r -= p) < 0);
+  if (index === -1) {
+    // Rounding left r just above 0: take the last move that was possible
+    index = probabilities.length - 1 - [...probabilities].reverse().findIndex(p => p > 0);
+  }
+
+  return {
+    action: actions[index],
+    probability: probabilities[index],
+    network: { ...network, rngState: rng.getState() }
+  };
+};
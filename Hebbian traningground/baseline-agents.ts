@@ -0,0 +1,175 @@
+// Registry of baseline agents: simple controllers without a network, run
+// alongside it so its reward rate has something to be compared with. An agent
+// decides like chooseAction does for the network: act(agent, world, rng)
+// returns the action, how likely it was and the agent's next state. Agents
+// are plain state; their randomness comes from the run's seeded generator.
+//
+// Each baseline plays its own copy of the world, started from the same config
+// and seed as the network's (or, when added mid-run, from the network's world
+// at that move), and moves once whenever the network moves. Its
+// generator is derived from the seed with the agent's `salt`, so its choices
+// are independent of where the world places rewards.
+
+import { createRng, deriveSeed } from './random';
+import { MOVES } from './snake-world';
+import { VISION_CHANNELS } from './vision-channels';
+import {
+  createWorld,
+  reconfigureWorld,
+  getEnvironment,
+  getEnvironmentKey,
+  getChannelIds,
+  observe,
+  step,
+  getActions
+} from './environments';
+import { addRecentReward } from './history';
+
+const Q_LEARNING = {
+  alpha: 0.1,   // learning rate
+  gamma: 0.9,   // discount
+  epsilon: 0.1  // exploration
+};
+const MAX_Q_STATES = 4096; // states past this many are acted on but not learned
+
+// Pick uniformly among the best-scoring actions
+const pickBest = (rng, actions, scores) => {
+  const max = Math.max(...scores);
+  const best = actions.filter((_, i) => scores[i] === max);
+  return { action: best[rng.int(best.length)], share: 1 / best.length };
+};
+
+// Offsets of the visible food from the centre of the food vision grid
+const visibleFood = (world, inputs) => {
+  const { visionSize } = world.config;
+  const offset = Math.floor(visionSize / 2);
+  const food = [];
+  for (let y = 0; y < visionSize; y++) {
+    for (let x = 0; x < visionSize; x++) {
+      if (inputs[VISION_CHANNELS.food.neuronId(x, y)] > 0) food.push({ dx: x - offset, dy: y - offset });
+    }
+  }
+  return food;
+};
+
+// State for the Q-table: the binarised vision grid, one bit per sensor neuron
+// (1 where something is sensed) for each channel in use, grid channels row by
+// row
+const stateKey = (world, inputs) => {
+  const { config } = world;
+  const environment = getEnvironment(config);
+  return environment.sensors(config).map(key => {
+    const channel = environment.channels[key];
+    const ids = [];
+    if (channel.kind === 'grid') {
+      for (let y = 0; y < config.visionSize; y++) {
+        for (let x = 0; x < config.visionSize; x++) ids.push(channel.neuronId(x, y));
+      }
+    } else {
+      ids.push(...getChannelIds(channel, config));
+    }
+    return ids.map(id => inputs[id] > 0 ? '1' : '0').join('');
+  }).join('|');
+};
+
+export const BASELINE_AGENTS = {
+  random: {
+    name: 'Uniform random',
+    salt: 2,
+    create: () => ({}),
+    act: (agent, world, rng) => {
+      const actions = getActions(world.config);
+      return { action: actions[rng.int(actions.length)], probability: 1 / actions.length, agent };
+    }
+  },
+
+  greedy: {
+    name: 'Greedy (nearest visible food)',
+    salt: 3,
+    // Takes the move that gets closest to the nearest food in view, moving at
+    // random when no food is in view or the world has no food vision
+    create: () => ({}),
+    act: (agent, world, rng) => {
+      const actions = getActions(world.config);
+      const food = visibleFood(world, observe(world).inputs);
+      if (food.length === 0 || !actions.every(a => MOVES[a])) {
+        return { action: actions[rng.int(actions.length)], probability: 1 / actions.length, agent };
+      }
+      const distance = (f, move) => Math.abs(f.dx - move.dx) + Math.abs(f.dy - move.dy);
+      const scores = actions.map(a => -Math.min(...food.map(f => distance(f, MOVES[a]))));
+      const { action, share } = pickBest(rng, actions, scores);
+      return { action, probability: share, agent };
+    }
+  },
+
+  qLearning: {
+    name: 'Tabular Q-learning',
+    salt: 4,
+    // One-step Q-learning over the binarised vision grid (see stateKey),
+    // epsilon-greedy. The table holds at most MAX_Q_STATES states; size
+    // counts them.
+    create: () => ({ table: {}, size: 0, previous: null }),
+    act: (agent, world, rng) => {
+      const { alpha, gamma, epsilon } = Q_LEARNING;
+      const actions = getActions(world.config);
+      const key = stateKey(world, observe(world).inputs);
+      const values = agent.table[key] || actions.map(() => 0);
+      let { table, size } = agent;
+
+      // Learn from the reward the last move earned; a finished episode has
+      // no future to bootstrap from
+      const { previous } = agent;
+      const known = previous && !!table[previous.key];
+      if (previous && (known || size < MAX_Q_STATES)) {
+        const old = table[previous.key] || actions.map(() => 0);
+        const future = previous.episode === world.episode.number ? gamma * Math.max(...values) : 0;
+        const updated = [...old];
+        updated[previous.index] += alpha * (world.lastReward + future - old[previous.index]);
+        table = { ...table, [previous.key]: updated };
+        if (!known) size += 1;
+      }
+
+      const current = table[key] || values;
+      const { action, share } = pickBest(rng, actions, current);
+      const explore = rng.next() < epsilon;
+      const chosen = explore ? actions[rng.int(actions.length)] : action;
+      const probability = (1 - epsilon) * (chosen === action ? share : 0) + epsilon / actions.length;
+
+      return {
+        action: chosen,
+        probability,
+        agent: { table, size, previous: { key, index: actions.indexOf(chosen), episode: world.episode.number } }
+      };
+    }
+  }
+};
+
+// A baseline playing its own world: { type, world, agent, rngState, recentRewards }
+export const createBaselineRun = (type, worldConfig, seed) => ({
+  type,
+  world: createWorld(worldConfig, seed),
+  agent: BASELINE_AGENTS[type].create(),
+  rngState: deriveSeed(seed, BASELINE_AGENTS[type].salt),
+  recentRewards: []
+});
+
+export const stepBaselineRun = (run) => {
+  const rng = createRng(run.rngState);
+  const { action, agent } = BASELINE_AGENTS[run.type].act(run.agent, run.world, rng);
+  const world = step(run.world, action);
+  return {
+    ...run,
+    world,
+    agent,
+    rngState: rng.getState(),
+    recentRewards: addRecentReward(run.recentRewards, world)
+  };
+};
+
+// Follow world settings changed mid-run; in another environment the agent
+// starts over, as what it learned no longer applies
+export const reconfigureBaselineRun = (run, worldConfig) => {
+  const world = reconfigureWorld(run.world, worldConfig);
+  if (getEnvironmentKey(worldConfig) === getEnvironmentKey(run.world.config)) return { ...run, world };
+  return { ...createBaselineRun(run.type, worldConfig, run.world.seed), world };
+};
@@ -0,0 +1,141 @@
+// Network update benchmark: builds a fully connected hidden layer and times
+// ticking it in place on the compiled network (what the game loop does)
+// against the O(N·C) reference update it replaced (see reference-network.ts).
+// Both are checked to end with the same weights, and the speedup is reported.
+//
+//   npx tsx benchmark-network.ts --hidden 1000 --ticks 500
+//
+// Options:
+//   --hidden <n>   hidden neurons, each connected to every input and output (default 1000)
+//   --ticks <n>    ticks to time on the compiled network (default 500)
+//   --rule <key>   learning rule for every connection (default: the network default)
+//   --seed <n>     seed for the generated weights (default 1)
+
+import { createDefaultNetwork } from './network-model';
+import { applyTemplate, getTemplateDefaults } from './network-templates';
+import { LEARNING_RULES } from './learning-rules';
+import { setInputs, deliverReward, setCompiledInputs, deliverCompiledReward, tickCompiled } from './hebbian-network';
+import { compileNetwork, toNetwork } from './compiled-network';
+import { referenceTick } from './reference-network';
+import { DEFAULT_CLOCK } from './simulation';
+import { createRng, parseSeed } from './random';
+
+const DEFAULTS = {
+  hidden: 1000,
+  ticks: 500,
+  seed: 1
+};
+const REFERENCE_TICK_SHARE = 0.02; // the slow path runs this share of the ticks
+const REAL_TIME_TICKS_PER_SECOND = 5 * DEFAULT_CLOCK.substeps; // 200 ms per move in the browser
+
+const usage = (message) => {
+  console.error(`${message}\nUsage: npx tsx benchmark-network.ts [--hidden n] [--ticks n] [--rule key] [--seed n]`);
+  process.exit(1);
+};
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) usage(`Unexpected argument "${argv[i]}"`);
+    const key = argv[i].slice(2);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) usage(`Missing value for --${key}`);
+    args[key] = value;
+    i++;
+  }
+  return args;
+};
+
+const positiveInteger = (args, key, fallback) => {
+  if (args[key] === undefined) return fallback;
+  const value = Number(args[key]);
+  if (!Number.isInteger(value) || value <= 0) usage(`--${key} must be a positive integer`);
+  return value;
+};
+
+// Random sensor activities and an occasional reward, the same for both paths
+const createInputs = (network, ticks, seed) => {
+  const rng = createRng(seed);
+  return Array.from({ length: ticks }, () => ({
+    activities: Object.fromEntries(network.neurons.input.map(n => [n.id, rng.next() < 0.2 ? 1 : 0])),
+    reward: rng.next() < 0.05 ? 1 : 0
+  }));
+};
+
+const time = (run) => {
+  const started = process.hrtime.bigint();
+  run();
+  return Number(process.hrtime.bigint() - started) / 1e9;
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const hidden = positiveInteger(args, 'hidden', DEFAULTS.hidden);
+  const ticks = positiveInteger(args, 'ticks', DEFAULTS.ticks);
+  const seed = args.seed === undefined ? DEFAULTS.seed : parseSeed(args.seed);
+  if (seed === null) usage('--seed must be a non-negative integer');
+  if (args.rule !== undefined && !LEARNING_RULES[args.rule]) {
+    usage(`Unknown rule "${args.rule}"; expected one of ${Object.keys(LEARNING_RULES).join(', ')}`);
+  }
+
+  let network = applyTemplate(
+    createDefaultNetwork(seed),
+    'fullyConnected',
+    { ...getTemplateDefaults('fullyConnected'), size: hidden },
+    true
+  );
+  if (args.rule) network = { ...network, defaultRule: args.rule };
+  const inputs = createInputs(network, ticks, seed);
+  const { dt } = DEFAULT_CLOCK;
+
+  const neuronCount = network.neurons.input.length + hidden + network.neurons.output.length;
+  console.log(`${neuronCount} neurons, ${network.connections.length} connections, rule ${network.defaultRule}`);
+
+  let compiled;
+  const compileSeconds = time(() => {
+    compiled = compileNetwork(network);
+  });
+  const compiledSeconds = time(() => {
+    inputs.forEach(({ activities, reward }) => {
+      setCompiledInputs(compiled, activities);
+      deliverCompiledReward(compiled, reward);
+      tickCompiled(compiled, dt);
+    });
+  });
+
+  const referenceTicks = Math.max(1, Math.round(ticks * REFERENCE_TICK_SHARE));
+  let reference = network;
+  const referenceSeconds = time(() => {
+    inputs.slice(0, referenceTicks).forEach(({ activities, reward }) => {
+      reference = referenceTick(deliverReward(setInputs(reference, activities), reward), dt);
+    });
+  });
+
+  // Replay the reference ticks on a fresh compiled network to compare weights
+  const check = compileNetwork(network);
+  inputs.slice(0, referenceTicks).forEach(({ activities, reward }) => {
+    setCompiledInputs(check, activities);
+    deliverCompiledReward(check, reward);
+    tickCompiled(check, dt);
+  });
+  const checked = toNetwork(check);
+  const matches = checked.connections.every((c, i) => c.weight === reference.connections[i].weight);
+
+  const report = (label, count, seconds) => {
+    const perSecond = count / seconds;
+    console.log(
+      `${label}: ${count} ticks in ${(seconds * 1000).toFixed(1)} ms, ` +
+      `${Math.round(perSecond)} ticks/s, ${(perSecond * network.connections.length / 1e6).toFixed(1)}M synapse updates/s, ` +
+      `${(perSecond / REAL_TIME_TICKS_PER_SECOND).toFixed(1)}x real time`
+    );
+  };
+  console.log(`compile: ${(compileSeconds * 1000).toFixed(1)} ms`);
+  report('compiled tick', ticks, compiledSeconds);
+  report('reference tick', referenceTicks, referenceSeconds);
+  const speedup = (ticks / compiledSeconds) / (referenceTicks / referenceSeconds);
+  console.log(`speedup: ${speedup.toFixed(0)}x`);
+  console.log(`weights match: ${matches ? 'yes' : 'NO'}`);
+  if (!matches) process.exit(1);
+};
+
+main();
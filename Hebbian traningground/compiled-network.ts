@@ -0,0 +1,138 @@
+// Indexed form of the network model for the update loop. Neurons are numbered
+// input, hidden, then output; activities and weights live in typed arrays and
+// every neuron has a list of its incoming connections, so a tick walks each
+// connection once without looking anything up by id.
+//
+// A compiled network is mutable and is ticked in place (see hebbian-network.ts).
+// `source` is the model network it was compiled from or last written back to;
+// anyone holding a model network whose `source` has moved on must compile it
+// again rather than reuse the buffers.
+
+import { getAllNeurons, getWeightBounds } from './network-model';
+import { getRule, getConnectionRule } from './learning-rules';
+
+export const compileNetwork = (network) => {
+  const neurons = getAllNeurons(network);
+  const index = new Map(neurons.map((n, i) => [n.id, i]));
+  const inputCount = network.neurons.input.length;
+  const hiddenCount = network.neurons.hidden.length;
+  const neuronCount = neurons.length;
+
+  const activity = Float64Array.from(neurons, n => n.activity || 0);
+  const threshold = Float64Array.from(neurons, n => n.threshold || 0);
+  const timeConstant = Float64Array.from(neurons, n => n.timeConstant || 1);
+
+  const { connections } = network;
+  const connectionCount = connections.length;
+  const from = new Int32Array(connectionCount);
+  const to = new Int32Array(connectionCount);
+  const weight = new Float64Array(connectionCount);
+  const low = new Float64Array(connectionCount);
+  const high = new Float64Array(connectionCount);
+  const decay = new Float64Array(connectionCount);
+  // Rules read their parameters and keep their traces on a connection
+  // object; each connection gets its own copy to update in place
+  const synapses = connections.map(c => ({ ...c }));
+  const rules = connections.map(c => getRule(getConnectionRule(network, c)));
+
+  connections.forEach((c, i) => {
+    // Connections to or from missing neurons are kept but never updated
+    from[i] = index.has(c.from) ? index.get(c.from) : -1;
+    to[i] = index.has(c.to) ? index.get(c.to) : -1;
+    weight[i] = c.weight;
+    decay[i] = c.decay;
+    const [min, max] = from[i] >= 0 ? getWeightBounds(network, c, neurons[from[i]]) : [-1, 1];
+    low[i] = min;
+    high[i] = max;
+  });
+
+  // Incoming connections grouped by target, in connection order, so summed
+  // inputs add up in the same order as the connection list
+  const incomingStart = new Int32Array(neuronCount + 1);
+  for (let i = 0; i < connectionCount; i++) {
+    if (from[i] >= 0 && to[i] >= 0) incomingStart[to[i] + 1]++;
+  }
+  for (let n = 0; n < neuronCount; n++) incomingStart[n + 1] += incomingStart[n];
+  const incoming = new Int32Array(incomingStart[neuronCount]);
+  const fill = incomingStart.slice(0, neuronCount);
+  for (let i = 0; i < connectionCount; i++) {
+    if (from[i] >= 0 && to[i] >= 0) incoming[fill[to[i]]++] = i;
+  }
+
+  return {
+    source: network,
+    index,
+    connectionIndex: new Map(connections.map((c, i) => [`${c.from}->${c.to}`, i])), // same keys as history.ts
+    inputCount,
+    hiddenStart: inputCount,
+    outputStart: inputCount + hiddenCount,
+    neuronCount,
+    activity,
+    threshold,
+    timeConstant,
+    activations: neurons.map(n => n.activation),
+    totals: new Float64Array(neuronCount),
+    from,
+    to,
+    weight,
+    low,
+    high,
+    decay,
+    synapses,
+    rules,
+    incomingStart,
+    incoming,
+    dopamine: network.dopamine || 0,
+    rngState: network.rngState
+  };
+};
+
+// Model network with the compiled activities, weights and rule state written
+// back. The result becomes the compiled network's new `source`.
+export const toNetwork = (compiled) => {
+  const { source, activity, weight, synapses } = compiled;
+  let i = 0;
+  const group = (list) => list.map(n => ({ ...n, activity: activity[i++] }));
+  const network = {
+    ...source,
+    neurons: {
+      input: group(source.neurons.input),
+      hidden: group(source.neurons.hidden),
+      output: group(source.neurons.output)
+    },
+    connections: synapses.map((s, c) => ({ ...s, weight: weight[c] })),
+    dopamine: compiled.dopamine,
+    rngState: compiled.rngState
+  };
+  compiled.source = network;
+  return network;
+};
+
+// Just the output group, with current activities and generator state: enough
+// for the action policies without writing back every connection
+export const toOutputNetwork = (compiled) => {
+  const { source, activity, outputStart } = compiled;
+  return {
+    ...source,
+    neurons: {
+      ...source.neurons,
+      output: source.neurons.output.map((n, i) => ({ ...n, activity: activity[outputStart + i] }))
+    },
+    rngState: compiled.rngState
+  };
+};
+
+export const getCompiledActivity = (compiled, id) =>
+  compiled.index.has(id) ? compiled.activity[compiled.index.get(id)] : null;
+
+// Weight of the connection with key "from->to", or null if there is none
+export const getCompiledWeight = (compiled, key) =>
+  compiled.connectionIndex.has(key) ? compiled.weight[compiled.connectionIndex.get(key)] : null;
+
+export const getCompiledWeightNorm = (compiled) => {
+  let sumSquares = 0;
+  for (let i = 0; i < compiled.weight.length; i++) {
+    sumSquares += compiled.weight[i] * compiled.weight[i];
+  }
+  return Math.sqrt(sumSquares);
+};
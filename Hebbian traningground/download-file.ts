@@ -0,0 +1,9 @@
+// Offer text to the user as a file download
+export const downloadFile = (text, filename, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
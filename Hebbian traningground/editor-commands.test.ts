@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDefaultNetwork, addHiddenNeuron } from './network-model';
+import { countDraws, advanceRng } from './random';
+import { applyNetworkPatch } from './network-patches';
+import { applyTemplate } from './network-templates';
+import { addElementsCommand, templateCommand, buildDrawingEdit } from './editor-commands';
+
+const sorted = (list) => list.map(item => JSON.stringify(item)).sort();
+
+test('redoing an added neuron leaves the generator where it is', () => {
+  const network = createDefaultNetwork(3);
+  const next = addHiddenNeuron(network, 300, 200);
+  const neuron = next.neurons.hidden[0];
+  const command = addElementsCommand('Add neuron', [neuron], next.connections, countDraws(network.rngState, next.rngState));
+
+  const applied = applyNetworkPatch(network, command.patch);
+  assert.deepEqual(applied, next);
+
+  const undone = applyNetworkPatch(applied, command.inverse);
+  assert.deepEqual(undone.neurons, network.neurons);
+  assert.deepEqual(undone.connections, network.connections);
+  assert.equal(undone.rngState, next.rngState);
+
+  const redone = applyNetworkPatch(undone, command.redo);
+  assert.deepEqual(redone.connections, next.connections);
+  assert.equal(redone.rngState, next.rngState);
+});
+
+test('a template command makes the template and its inverse restores the network', () => {
+  let network = createDefaultNetwork(5);
+  network = addHiddenNeuron(network, 300, 200);
+  const params = { size: 3 };
+  const command = templateCommand(network, 'fullyConnected', params, true);
+
+  const expected = applyTemplate(network, 'fullyConnected', params, true);
+  const applied = applyNetworkPatch(network, command.patch);
+  assert.deepEqual(sorted(applied.neurons.hidden), sorted(expected.neurons.hidden));
+  assert.deepEqual(sorted(applied.connections), sorted(expected.connections));
+  assert.equal(applied.rngState, expected.rngState);
+
+  const undone = applyNetworkPatch(applied, command.inverse);
+  assert.deepEqual(sorted(undone.neurons.hidden), sorted(network.neurons.hidden));
+  assert.deepEqual(sorted(undone.connections), sorted(network.connections));
+
+  const redone = applyNetworkPatch(undone, command.redo);
+  assert.deepEqual(sorted(redone.connections), sorted(expected.connections));
+  assert.equal(redone.rngState, applied.rngState);
+});
+
+test('a drawing edit takes its ids and weights from the generator of the network it is built on', () => {
+  const network = createDefaultNetwork(3);
+  // The live network's generator has moved on while it learned
+  const live = { ...network, rngState: advanceRng(network.rngState, 5) };
+  const edit = { type: 'addNeuron', x: 300, y: 200, autoConnect: true };
+
+  const { command, ids } = buildDrawingEdit(live, edit);
+  assert.deepEqual(applyNetworkPatch(live, command.patch), addHiddenNeuron(live, 300, 200));
+  assert.notDeepEqual(ids, buildDrawingEdit(network, edit).ids);
+});
+
+test('connecting neurons that are already connected is no edit', () => {
+  const network = addHiddenNeuron(createDefaultNetwork(3), 300, 200);
+  const { from, to } = network.connections[0];
+  assert.equal(buildDrawingEdit(network, { type: 'connect', from, to }), null);
+  assert.ok(buildDrawingEdit(network, { type: 'connect', from: to, to: from }));
+});
@@ -0,0 +1,161 @@
+// Undoable edits for the network editor. A command records exactly what it
+// changed, so it can be reverted on a network that has kept learning since:
+// weights and activities of everything it didn't touch are left alone.
+//
+// Commands are { label, patch, inverse, redo }: the network patches (see
+// network-patches.ts) that make the edit, undo it and make it again. Redoing
+// an addition doesn't draw from the network's generator again, which has
+// moved on since. The edit history keeps the applied ones in `past` and the
+// undone ones in `future`.
+//
+// Additions draw their ids and weights from the network's generator. The
+// page's copy of it lags behind while the network learns, so those edits are
+// sent to the simulation worker and built there on the live network (see
+// DRAWING_EDITS).
+
+import { createRng, countDraws } from './random';
+import { randomNeuronId, isSameConnection, addHiddenNeuron, addConnection } from './network-model';
+import { withElements } from './network-patches';
+import { NETWORK_TEMPLATES, applyTemplate } from './network-templates';
+
+export const MAX_UNDO = 100;
+export const PASTE_OFFSET = 40; // px between a pasted group and its original
+
+const toKeys = (connections) => connections.map(c => ({ from: c.from, to: c.to }));
+
+// Add hidden neurons and connections; draws is how many values their ids and
+// weights took from the network's generator
+export const addElementsCommand = (label, neurons, connections, draws = 0) => ({
+  label,
+  patch: { type: 'addElements', neurons, connections, draws },
+  inverse: { type: 'removeElements', neuronIds: neurons.map(n => n.id), connections: toKeys(connections) },
+  redo: { type: 'addElements', neurons, connections }
+});
+
+// Remove hidden neurons (with every connection touching them) and connections
+export const removeElementsCommand = (network, neuronIds, connectionKeys = []) => {
+  const ids = new Set(neuronIds);
+  const neurons = network.neurons.hidden.filter(n => ids.has(n.id));
+  const removedIds = new Set(neurons.map(n => n.id));
+  const connections = network.connections.filter(c =>
+    removedIds.has(c.from) || removedIds.has(c.to) || connectionKeys.some(key => isSameConnection(c, key))
+  );
+  return {
+    label: neurons.length ? `Delete ${neurons.length} neuron${neurons.length > 1 ? 's' : ''}` : 'Delete connection',
+    patch: { type: 'removeElements', neuronIds: [...removedIds], connections: toKeys(connections) },
+    inverse: { type: 'addElements', neurons, connections }
+  };
+};
+
+// Apply a network template (see network-templates.ts) as the hidden neurons
+// and connections it removed and added. Templates keep what they leave alone
+// as is, so anything else is new, including replacements under an old id.
+export const templateCommand = (network, templateKey, params, replace) => {
+  const next = applyTemplate(network, templateKey, params, replace);
+  const missingFrom = (list, other) => {
+    const kept = new Set(other);
+    return list.filter(item => !kept.has(item));
+  };
+  const removedNeurons = missingFrom(network.neurons.hidden, next.neurons.hidden);
+  const removedConnections = missingFrom(network.connections, next.connections);
+  const addedNeurons = missingFrom(next.neurons.hidden, network.neurons.hidden);
+  const addedConnections = missingFrom(next.connections, network.connections);
+
+  const remove = (neurons, connections) =>
+    ({ type: 'removeElements', neuronIds: neurons.map(n => n.id), connections: toKeys(connections) });
+  const add = (neurons, connections, draws = 0) => ({ type: 'addElements', neurons, connections, draws });
+  const draws = countDraws(network.rngState, next.rngState);
+  const batch = (...patches) => ({ type: 'batch', patches });
+  return {
+    label: `Apply ${NETWORK_TEMPLATES[templateKey].name}`,
+    patch: batch(remove(removedNeurons, removedConnections), add(addedNeurons, addedConnections, draws)),
+    inverse: batch(remove(addedNeurons, addedConnections), add(removedNeurons, removedConnections)),
+    redo: batch(remove(removedNeurons, removedConnections), add(addedNeurons, addedConnections))
+  };
+};
+
+// from and to map neuron ids to { x, y }
+export const moveNeuronsCommand = (from, to) => ({
+  label: 'Move',
+  patch: { type: 'setNeuronPositions', positions: to },
+  inverse: { type: 'setNeuronPositions', positions: from }
+});
+
+export const createEditHistory = () => ({ past: [], future: [] });
+
+export const recordCommand = (history, command) => ({
+  past: [...history.past, command].slice(-MAX_UNDO),
+  future: []
+});
+
+// Copy hidden neurons with the connections among them
+export const copyNeurons = (network, neuronIds) => {
+  const ids = new Set(neuronIds);
+  const neurons = network.neurons.hidden.filter(n => ids.has(n.id));
+  const copied = new Set(neurons.map(n => n.id));
+  return {
+    neurons,
+    connections: network.connections.filter(c => copied.has(c.from) && copied.has(c.to))
+  };
+};
+
+// Paste a copied group under fresh ids, shifted by offset px. Returns the
+// command and the ids of the pasted neurons.
+export const pasteCommand = (network, clipboard, offset = PASTE_OFFSET) => {
+  const rng = createRng(network.rngState);
+  const idMap = {};
+  let withIds = network;
+
+  const neurons = clipboard.neurons.map(n => {
+    const id = randomNeuronId(withIds, rng);
+    idMap[n.id] = id;
+    const pasted = { ...n, id, x: n.x + offset, y: n.y + offset, activity: 0 };
+    withIds = withElements(withIds, [pasted], []);
+    return pasted;
+  });
+  const connections = clipboard.connections.map(c => ({ ...c, from: idMap[c.from], to: idMap[c.to] }));
+
+  return {
+    command: addElementsCommand(
+      `Paste ${neurons.length} neuron${neurons.length > 1 ? 's' : ''}`,
+      neurons,
+      connections,
+      countDraws(network.rngState, rng.getState())
+    ),
+    ids: neurons.map(n => n.id)
+  };
+};
+
+// Edits that draw from the network's generator, as { type, ...fields } with
+// the fields their entry below takes. Each builds { command, ids } on the
+// network it is given, ids being the neurons it adds, or returns null when
+// there is nothing to do.
+export const DRAWING_EDITS = {
+  // Without autoConnect the neuron starts unwired
+  addNeuron: (network, { x, y, autoConnect }) => {
+    const next = addHiddenNeuron(network, x, y);
+    const neuron = next.neurons.hidden[next.neurons.hidden.length - 1];
+    const connections = autoConnect ? next.connections.slice(network.connections.length) : [];
+    const draws = countDraws(network.rngState, next.rngState);
+    return { command: addElementsCommand('Add neuron', [neuron], connections, draws), ids: [neuron.id] };
+  },
+
+  // The reverse direction is a separate (recurrent or lateral) connection
+  connect: (network, { from, to }) => {
+    if (network.connections.some(c => c.from === from && c.to === to)) return null;
+    const next = addConnection(network, from, to);
+    const draws = countDraws(network.rngState, next.rngState);
+    return { command: addElementsCommand('Connect', [], [next.connections[next.connections.length - 1]], draws), ids: [] };
+  },
+
+  paste: (network, { clipboard }) => pasteCommand(network, clipboard),
+
+  applyTemplate: (network, { templateKey, params, replace }) =>
+    ({ command: templateCommand(network, templateKey, params, replace), ids: [] })
+};
+
+export const buildDrawingEdit = (network, edit) => {
+  const build = DRAWING_EDITS[edit.type];
+  if (!build) throw new Error(`Unknown network edit "${edit.type}"`);
+  return build(network, edit);
+};
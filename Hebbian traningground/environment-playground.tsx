@@ -0,0 +1,106 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { ENVIRONMENTS, getEnvironment, getEnvironmentKey } from './environments';
+import SnakePlayground from './snake-playground';
+import LineFollowingView from './line-following-view';
+import PredatorArenaView from './predator-arena-view';
+import ForagingArenaView from './foraging-arena-view';
+
+// Canvas for each environment other than snake, which has its own playground
+const VIEWS = {
+  lineFollowing: LineFollowingView,
+  predatorArena: PredatorArenaView,
+  foragingArena: ForagingArenaView
+};
+
+// Environment picker plus the chosen environment's view and settings. Picking
+// another environment starts from its default settings; HebbianSnake then
+// regenerates the network's input and output neurons to match. A readOnly
+// world, e.g. a replayed frame, is shown without its settings.
+const EnvironmentPlayground = ({ world, isRunning, worldConfig, onWorldConfigChange, seed, readOnly }) => {
+  const key = getEnvironmentKey(worldConfig);
+  const environment = getEnvironment(worldConfig);
+  const View = VIEWS[key];
+  const { stats, episode, episodes } = world;
+  const lastEpisode = episodes[episodes.length - 1];
+
+  const update = (changes) => onWorldConfigChange({ ...worldConfig, ...changes });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Card>
+        <CardContent className="p-4 space-y-2">
+          <h3 className="text-sm font-medium">Environment</h3>
+          <select
+            className="w-full p-2 border rounded"
+            value={key}
+            disabled={readOnly}
+            onChange={(e) => onWorldConfigChange(ENVIRONMENTS[e.target.value].defaultConfig)}
+          >
+            {Object.entries(ENVIRONMENTS).map(([k, env]) => (
+              <option key={k} value={k}>{env.name}</option>
+            ))}
+          </select>
+          <div className="text-xs text-gray-600">{environment.description}</div>
+        </CardContent>
+      </Card>
+
+      {/* The world lags one snapshot behind a switch, so wait for it to match */}
+      {key === 'snake' && getEnvironmentKey(world.config) === key && (
+        <SnakePlayground
+          world={world}
+          isRunning={isRunning}
+          worldConfig={worldConfig}
+          onWorldConfigChange={onWorldConfigChange}
+          seed={seed}
+          readOnly={readOnly}
+        />
+      )}
+
+      {View && getEnvironmentKey(world.config) === key && (
+        <>
+          <Card>
+            <CardContent className="p-4">
+              <View world={world} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              {!readOnly && environment.params.map(param => (
+                <div key={param.key}>
+                  <h4 className="text-xs mb-2">{param.label}: {worldConfig[param.key]}</h4>
+                  <Slider
+                    value={[worldConfig[param.key]]}
+                    onValueChange={([value]) => update({ [param.key]: value })}
+                    min={param.min}
+                    max={param.max}
+                    step={param.step}
+                  />
+                </div>
+              ))}
+
+              <div className="text-sm space-y-1">
+                <div>Rewards Collected: {stats.rewardsCollected}</div>
+                <div>Moves: {stats.moves}</div>
+                <div>Reward Rate: {(stats.rewardsCollected / stats.moves || 0).toFixed(3)}</div>
+              </div>
+
+              {environment.episodic(worldConfig) && (
+                <div className="text-sm space-y-1">
+                  <div>Episode {episode.number}: {episode.steps} steps, {episode.foodEaten} food</div>
+                  {lastEpisode && (
+                    <div>Last episode: survived {lastEpisode.steps} steps, ate {lastEpisode.foodEaten}</div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EnvironmentPlayground;
@@ -0,0 +1,178 @@
+// Registry of environments the network can be placed in. The world config
+// picks one by key in `config.environment` (snake when missing). The network
+// code only talks to an environment through this interface:
+//
+//   name, description
+//   defaultConfig        world settings, including `environment`
+//   params               numeric settings as { key, label, min, max, step }, for
+//                        the generic settings panel and file validation
+//   channels             sensor channels it may use: { name, color, kind: 'grid'
+//                        with neuronId(x, y) over a visionSize x visionSize window,
+//                        or kind: 'list' with ids (an array or ids(config)) }
+//   sensors(config)      keys of the channels in use, in layout order
+//   actions(config)      action ids, one output neuron each
+//   episodic(config)     whether runs are split into episodes
+//   createWorld(config, seed), reconfigureWorld(world, config)
+//   observe(world)       { inputs } keyed by input neuron id; `reward` is the
+//                        reward-in-reach cue every input layer ends with
+//   step(world, action)  the next world
+//
+// Worlds are plain, immutable state. Besides their own fields every world
+// keeps `config`, `stats: { moves, rewardsCollected }`, `lastReward` (the
+// reward signal of the last move, delivered to the network as dopamine),
+// `episode: { number, steps, foodEaten }` and `episodes` (finished ones).
+
+import {
+  DEFAULT_WORLD_CONFIG,
+  MOVES,
+  createWorld as createSnakeWorld,
+  reconfigureWorld as reconfigureSnakeWorld,
+  observe as observeSnake,
+  step as stepSnake
+} from './snake-world';
+import { VISION_CHANNELS, getEnabledChannels } from './vision-channels';
+import {
+  LINE_FOLLOWING_CONFIG,
+  LINE_ACTIONS,
+  lineSensorId,
+  createLineWorld,
+  reconfigureLineWorld,
+  observeLine,
+  stepLine
+} from './line-following';
+import {
+  PREDATOR_ARENA_CONFIG,
+  predatorNeuronId,
+  createArenaWorld,
+  reconfigureArenaWorld,
+  observeArena,
+  stepArena
+} from './predator-arena';
+import {
+  FORAGING_ARENA_CONFIG,
+  createForagingWorld,
+  reconfigureForagingWorld,
+  observeForaging,
+  stepForaging
+} from './foraging-arena';
+
+export const DEFAULT_ENVIRONMENT = 'snake';
+
+export const ENVIRONMENTS = {
+  snake: {
+    name: 'Snake',
+    description: 'Collect food on a grid; optionally the classic game with a growing body.',
+    defaultConfig: DEFAULT_WORLD_CONFIG,
+    params: [], // has its own settings panel
+    channels: VISION_CHANNELS,
+    sensors: getEnabledChannels,
+    actions: () => Object.keys(MOVES),
+    episodic: (config) => !!config.classicMode,
+    createWorld: createSnakeWorld,
+    reconfigureWorld: reconfigureSnakeWorld,
+    observe: observeSnake,
+    step: stepSnake
+  },
+
+  lineFollowing: {
+    name: 'Line following',
+    description: 'Stay on a wandering line along a 1-D track, seen through a row of sensors.',
+    defaultConfig: LINE_FOLLOWING_CONFIG,
+    params: [
+      { key: 'trackWidth', label: 'Track Width', min: 5, max: 41, step: 1 },
+      { key: 'sensorCount', label: 'Sensors', min: 1, max: 9, step: 2 },
+      { key: 'drift', label: 'Line Drift', min: 0, max: 1, step: 0.05 }
+    ],
+    channels: {
+      line: {
+        name: 'Line sensors',
+        kind: 'list',
+        color: '#795548',
+        ids: (config) => Array.from({ length: config.sensorCount }, (_, i) => lineSensorId(i))
+      }
+    },
+    sensors: () => ['line'],
+    actions: () => Object.keys(LINE_ACTIONS),
+    episodic: () => false,
+    createWorld: createLineWorld,
+    reconfigureWorld: reconfigureLineWorld,
+    observe: observeLine,
+    step: stepLine
+  },
+
+  predatorArena: {
+    name: 'Foraging with predators',
+    description: 'Gather food on a wrapping grid while predators chase you; getting caught ends the episode.',
+    defaultConfig: PREDATOR_ARENA_CONFIG,
+    params: [
+      { key: 'gridSize', label: 'Grid Size', min: 8, max: 40, step: 1 },
+      { key: 'visionSize', label: 'Vision Size', min: 3, max: 9, step: 2 },
+      { key: 'foodCount', label: 'Food', min: 1, max: 20, step: 1 },
+      { key: 'predatorCount', label: 'Predators', min: 0, max: 5, step: 1 },
+      { key: 'predatorSpeed', label: 'Predator Speed', min: 0, max: 1, step: 0.05 }
+    ],
+    channels: {
+      food: VISION_CHANNELS.food,
+      predator: {
+        name: 'Predators',
+        kind: 'grid',
+        color: '#F44336',
+        neuronId: predatorNeuronId
+      }
+    },
+    sensors: () => ['food', 'predator'],
+    actions: () => Object.keys(MOVES),
+    episodic: () => true,
+    createWorld: createArenaWorld,
+    reconfigureWorld: reconfigureArenaWorld,
+    observe: observeArena,
+    step: stepArena
+  },
+
+  foragingArena: {
+    name: 'Foraging arena (hebbian-ai.py)',
+    description: 'The Python prototype\'s world: a large wrapping grid full of food, rewarded only while standing on it.',
+    defaultConfig: FORAGING_ARENA_CONFIG,
+    params: [
+      { key: 'gridSize', label: 'World Size', min: 10, max: 200, step: 10 },
+      { key: 'visionSize', label: 'Vision Size', min: 3, max: 11, step: 2 },
+      { key: 'rewardCount', label: 'Food', min: 1, max: 2000, step: 10 }
+    ],
+    channels: { food: VISION_CHANNELS.food },
+    sensors: () => ['food'],
+    actions: () => Object.keys(MOVES),
+    episodic: () => false,
+    createWorld: createForagingWorld,
+    reconfigureWorld: reconfigureForagingWorld,
+    observe: observeForaging,
+    step: stepForaging
+  }
+};
+
+export const getEnvironmentKey = (config) => config.environment || DEFAULT_ENVIRONMENT;
+
+export const getEnvironment = (config) => ENVIRONMENTS[getEnvironmentKey(config)];
+
+// Every environment's channels by key; environments may share a channel
+export const SENSOR_CHANNELS = Object.assign({}, ...Object.values(ENVIRONMENTS).map(e => e.channels));
+
+// Ids of a list channel's neurons under the given config
+export const getChannelIds = (channel, config) =>
+  typeof channel.ids === 'function' ? channel.ids(config) : channel.ids;
+
+// Fill in settings the config doesn't have from its environment's defaults
+export const withEnvironmentDefaults = (config) => ({ ...getEnvironment(config).defaultConfig, ...config });
+
+export const createWorld = (config, seed = 0) => getEnvironment(config).createWorld(config, seed);
+
+// Switching to another environment starts a fresh world
+export const reconfigureWorld = (world, config) =>
+  getEnvironmentKey(config) === getEnvironmentKey(world.config)
+    ? getEnvironment(config).reconfigureWorld(world, config)
+    : createWorld(config, world.seed);
+
+export const observe = (world) => getEnvironment(world.config).observe(world);
+
+export const step = (world, action) => getEnvironment(world.config).step(world, action);
+
+export const getActions = (config) => getEnvironment(config).actions(config);
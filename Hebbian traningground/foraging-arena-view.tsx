@@ -0,0 +1,53 @@
+import React, { useEffect, useRef } from 'react';
+import { getForagingVisionCells } from './foraging-arena';
+
+// The world is too large for fixed cells, so they shrink to fit
+const CANVAS_SIZE = 500;
+
+// Colours as in the hebbian-ai.py prototype
+const ForagingArenaView = ({ world }) => {
+  const { gridSize } = world.config;
+  const cellSize = Math.max(1, Math.floor(CANVAS_SIZE / gridSize));
+  const canvasRef = useRef(null);
+
+  const render = () => {
+    const ctx = canvasRef.current.getContext('2d');
+    const size = gridSize * cellSize;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, size, size);
+
+    // Draw food
+    ctx.fillStyle = '#0F0';
+    world.rewards.forEach(food => {
+      ctx.fillRect(food.x * cellSize, food.y * cellSize, cellSize, cellSize);
+    });
+
+    // Draw the bot
+    ctx.fillStyle = '#F00';
+    ctx.fillRect(world.bot.x * cellSize, world.bot.y * cellSize, cellSize, cellSize);
+
+    // Outline the field of view cell by cell, so it wraps across edges
+    ctx.strokeStyle = '#00F';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    getForagingVisionCells(world).forEach(row => row.forEach(cell => {
+      ctx.rect(cell.x * cellSize + 0.5, cell.y * cellSize + 0.5, cellSize - 1, cellSize - 1);
+    }));
+    ctx.stroke();
+  };
+
+  useEffect(() => {
+    if (canvasRef.current) render();
+  }, [world]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={gridSize * cellSize}
+      height={gridSize * cellSize}
+      className="border border-gray-200"
+    />
+  );
+};
+
+export default ForagingArenaView;
@@ -0,0 +1,126 @@
+// Framework-free foraging arena with the rules of the hebbian-ai.py prototype,
+// so runs here can be compared with the earlier Python experiments:
+//
+// - a wrapping gridSize x gridSize world (100 in the prototype), seen through
+//   a visionSize window (7) that wraps around the edges too
+// - rewardCount random food drops at the start (400); drops on the same cell
+//   merge, as they do in the prototype's grid
+// - the bot starts at (1, 1) and moves up, down, left or right
+// - the reward is 1 only while the bot stands on food. It still sees that food
+//   under it; the food is eaten and respawned on a cell without food just
+//   before the bot moves on, as in the prototype's loop
+//
+// Pure functions over a plain state, like snake-world.ts.
+
+import { createRng } from './random';
+import { MOVES } from './snake-world';
+import { VISION_CHANNELS } from './vision-channels';
+
+export const FORAGING_ARENA_CONFIG = {
+  environment: 'foragingArena',
+  gridSize: 100,
+  visionSize: 7,
+  rewardCount: 400
+};
+
+const START = { x: 1, y: 1 };
+
+const wrap = (config, v) => (v % config.gridSize + config.gridSize) % config.gridSize;
+
+const sameCell = (a, b) => a.x === b.x && a.y === b.y;
+
+const cellKey = (cell) => `${cell.x},${cell.y}`;
+
+const randomCell = (config, rng) => ({ x: rng.int(config.gridSize), y: rng.int(config.gridSize) });
+
+export const createForagingWorld = (config = FORAGING_ARENA_CONFIG, seed = 0) => {
+  const rng = createRng(seed);
+  const dropped = new Map();
+  for (let i = 0; i < config.rewardCount; i++) {
+    const cell = randomCell(config, rng);
+    dropped.set(cellKey(cell), cell);
+  }
+  const rewards = [...dropped.values()];
+
+  return {
+    config,
+    seed,
+    rngState: rng.getState(),
+    bot: START,
+    rewards, // food cells
+    stats: { rewardsCollected: 0, moves: 0 },
+    lastReward: rewards.some(r => sameCell(r, START)) ? 1 : 0,
+    episode: { number: 1, steps: 0, foodEaten: 0 },
+    episodes: []
+  };
+};
+
+// Any change restarts the arena
+export const reconfigureForagingWorld = (state, config) =>
+  config === state.config ? state : createForagingWorld(config, state.seed);
+
+// World cell under each vision cell, row by row
+export const getForagingVisionCells = (state) => {
+  const { visionSize } = state.config;
+  const offset = Math.floor(visionSize / 2);
+  const cells = [];
+  for (let y = 0; y < visionSize; y++) {
+    const row = [];
+    for (let x = 0; x < visionSize; x++) {
+      row.push({ x: wrap(state.config, state.bot.x - offset + x), y: wrap(state.config, state.bot.y - offset + y) });
+    }
+    cells.push(row);
+  }
+  return cells;
+};
+
+// Food is seen through the snake's food channel, so its neurons are shared.
+// Unlike the other environments, `reward` means standing on food.
+export const observeForaging = (state) => {
+  const foodNeuronId = VISION_CHANNELS.food.neuronId;
+  const food = new Set(state.rewards.map(cellKey));
+  const inputs = { reward: state.lastReward };
+  getForagingVisionCells(state).forEach((row, y) => row.forEach((cell, x) => {
+    inputs[foodNeuronId(x, y)] = food.has(cellKey(cell)) ? 1 : 0;
+  }));
+  return { inputs, hasReward: state.lastReward > 0 };
+};
+
+export const stepForaging = (state, action) => {
+  const { config } = state;
+  const rng = createRng(state.rngState);
+  const stats = { ...state.stats, moves: state.stats.moves + 1 };
+  let episode = { ...state.episode, steps: state.episode.steps + 1 };
+
+  // Eat the food under the bot; it grows back on any cell without food,
+  // which may be the bot's own
+  let rewards = state.rewards;
+  const foodIndex = rewards.findIndex(r => sameCell(r, state.bot));
+  if (foodIndex !== -1) {
+    rewards = [...rewards];
+    rewards.splice(foodIndex, 1);
+    if (rewards.length < config.gridSize * config.gridSize) {
+      const food = new Set(rewards.map(cellKey));
+      let cell;
+      do {
+        cell = randomCell(config, rng);
+      } while (food.has(cellKey(cell)));
+      rewards.push(cell);
+    }
+    stats.rewardsCollected += 1;
+    episode = { ...episode, foodEaten: episode.foodEaten + 1 };
+  }
+
+  const move = MOVES[action] || { dx: 0, dy: 0 };
+  const bot = { x: wrap(config, state.bot.x + move.dx), y: wrap(config, state.bot.y + move.dy) };
+
+  return {
+    ...state,
+    rngState: rng.getState(),
+    bot,
+    rewards,
+    stats,
+    lastReward: rewards.some(r => sameCell(r, bot)) ? 1 : 0,
+    episode
+  };
+};
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRng } from './random';
+import { createDefaultNetwork, getAllNeurons } from './network-model';
+import { applyTemplate } from './network-templates';
+import { LEARNING_RULES } from './learning-rules';
+import { compileNetwork, toNetwork } from './compiled-network';
+import { setInputs, deliverReward, setCompiledInputs, deliverCompiledReward, tickCompiled } from './hebbian-network';
+import { referenceTick } from './reference-network';
+
+const DT = 0.05;
+const TICKS = 200;
+
+// A fully connected hidden layer with every learning rule in use
+const buildNetwork = (seed) => {
+  const network = applyTemplate(createDefaultNetwork(seed), 'fullyConnected', { size: 4 }, true);
+  const rules = Object.keys(LEARNING_RULES);
+  return { ...network, connections: network.connections.map((c, i) => ({ ...c, rule: rules[i % rules.length] })) };
+};
+
+// Random inputs for every tick and a reward now and then
+const buildStimuli = (network, seed) => {
+  const rng = createRng(seed);
+  return Array.from({ length: TICKS }, () => ({
+    inputs: Object.fromEntries(network.neurons.input.map(n => [n.id, rng.next() < 0.3 ? 1 : 0])),
+    reward: rng.next() < 0.05 ? 1 : 0
+  }));
+};
+
+test('ticking in place gives the same network as the reference update', () => {
+  const network = buildNetwork(17);
+  const stimuli = buildStimuli(network, 18);
+
+  let plain = network;
+  stimuli.forEach(({ inputs, reward }) => {
+    plain = referenceTick(deliverReward(setInputs(plain, inputs), reward), DT);
+  });
+
+  const compiled = compileNetwork(network);
+  stimuli.forEach(({ inputs, reward }) => {
+    setCompiledInputs(compiled, inputs);
+    deliverCompiledReward(compiled, reward);
+    tickCompiled(compiled, DT);
+  });
+  const fast = toNetwork(compiled);
+
+  assert.notDeepEqual(plain.connections.map(c => c.weight), network.connections.map(c => c.weight));
+  assert.deepEqual(fast.connections, plain.connections);
+  assert.deepEqual(getAllNeurons(fast).map(n => n.activity), getAllNeurons(plain).map(n => n.activity));
+  assert.equal(fast.dopamine, plain.dopamine);
+});
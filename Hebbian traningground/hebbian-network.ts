@@ -0,0 +1,140 @@
+// Framework-free network dynamics over the shared network model.
+// setInputs, deliverReward and tick return a new network and leave their
+// argument untouched. Their *Compiled counterparts do the same work in place
+// on a compiled network (see compiled-network.ts), for loops that tick many
+// times before anyone needs to look at the model.
+//
+// Plasticity comes from the rule registry in learning-rules.ts. Reward events
+// release a global dopamine signal that modulated rules use as a third factor.
+
+import { DEFAULT_OUTPUT_TEMPERATURE } from './network-model';
+import { compileNetwork, toNetwork } from './compiled-network';
+
+// Seconds for the dopamine signal to fall to 1/e of its value
+export const DOPAMINE_TIME_CONSTANT = 1.0;
+
+export const activationFunctions = {
+  sigmoid: (x, threshold) => 1 / (1 + Math.exp(-(x - threshold))),
+  relu: (x, threshold) => Math.max(0, x - threshold),
+  threshold: (x, threshold) => x > threshold ? 1 : 0
+};
+
+// Write sensor activities (keyed by input neuron id) into the input neurons
+export const setInputs = (network, activities) => ({
+  ...network,
+  neurons: {
+    ...network.neurons,
+    input: network.neurons.input.map(n =>
+      n.id in activities ? { ...n, activity: activities[n.id] } : n
+    )
+  }
+});
+
+// Reward events release dopamine on top of whatever is still decaying
+export const deliverReward = (network, reward) => {
+  if (!reward) return network;
+  return { ...network, dopamine: (network.dopamine || 0) + reward };
+};
+
+// Output group activities from their summed inputs, per the network's output mode
+export const outputActivities = (network, totals) => {
+  const mode = network.outputMode || 'linear';
+  if (mode === 'softmax') {
+    // Probabilities over the outputs; lower temperatures sharpen the choice
+    const temperature = network.outputTemperature || DEFAULT_OUTPUT_TEMPERATURE;
+    const max = Math.max(...totals);
+    const exps = totals.map(t => Math.exp((t - max) / temperature));
+    const sum = exps.reduce((a, b) => a + b, 0);
+    return exps.map(e => e / sum);
+  }
+
+  const clamped = totals.map(t => Math.max(0, Math.min(1, t)));
+  if (mode === 'wta') {
+    // Only the strongest output stays active
+    const winner = totals.indexOf(Math.max(...totals));
+    return clamped.map((a, i) => i === winner ? a : 0);
+  }
+  return clamped;
+};
+
+export const setCompiledInputs = (compiled, activities) => {
+  for (const id in activities) {
+    const i = compiled.index.get(id);
+    if (i !== undefined && i < compiled.inputCount) compiled.activity[i] = activities[id];
+  }
+};
+
+export const deliverCompiledReward = (compiled, reward) => {
+  if (reward) compiled.dopamine += reward;
+};
+
+// Integrate activities and apply each connection's learning rule over dt seconds.
+// Updates are synchronous: every neuron reads the activities from before this
+// tick, so recurrent and lateral connections don't depend on update order.
+// With a `teacher` action the outputs are clamped before learning: 1 for that
+// action's output neuron and 0 for the others, so the network learns to
+// imitate the move it was shown.
+export const tickCompiled = (compiled, dt, teacher = null) => {
+  const {
+    activity, totals, weight, from, to, incomingStart, incoming,
+    hiddenStart, outputStart, neuronCount
+  } = compiled;
+
+  // First pass: summed input to every neuron from the previous activities
+  for (let n = hiddenStart; n < neuronCount; n++) {
+    let total = 0;
+    for (let k = incomingStart[n]; k < incomingStart[n + 1]; k++) {
+      const c = incoming[k];
+      total += activity[from[c]] * weight[c];
+    }
+    totals[n] = total;
+  }
+
+  for (let n = hiddenStart; n < outputStart; n++) {
+    // Leaky integration with the neuron's time constant, then activation
+    const dA = (-activity[n] + totals[n]) / compiled.timeConstant[n];
+    const activation = activationFunctions[compiled.activations[n]] || activationFunctions.threshold;
+    activity[n] = activation(activity[n] + dA * dt, compiled.threshold[n]);
+  }
+
+  if (outputStart < neuronCount) {
+    const activities = outputActivities(compiled.source, Array.from(totals.subarray(outputStart)));
+    activities.forEach((a, i) => {
+      activity[outputStart + i] = a;
+    });
+    if (teacher !== null) {
+      const taught = compiled.index.get(teacher);
+      for (let n = outputStart; n < neuronCount; n++) activity[n] = n === taught ? 1 : 0;
+    }
+  }
+
+  // Second pass: Update weights with each connection's learning rule
+  const { synapses, rules, low, high, decay } = compiled;
+  const context = { dopamine: compiled.dopamine };
+  for (let c = 0; c < weight.length; c++) {
+    if (from[c] < 0 || to[c] < 0) continue;
+    const synapse = synapses[c];
+    synapse.weight = weight[c];
+    const deltaW = rules[c].weightChange(synapse, activity[from[c]], activity[to[c]], context);
+    weight[c] = Math.max(low[c], Math.min(high[c], weight[c] * (1 - decay[c]) + deltaW));
+  }
+
+  compiled.dopamine *= Math.exp(-dt / DOPAMINE_TIME_CONSTANT);
+};
+
+export const tick = (network, dt) => {
+  const compiled = compileNetwork(network);
+  tickCompiled(compiled, dt);
+  return toNetwork(compiled);
+};
+
+// L2 norm and mean magnitude of all connection weights
+export const getWeightStats = (network) => {
+  const { connections } = network;
+  const sumSquares = connections.reduce((sum, c) => sum + c.weight * c.weight, 0);
+  const sumAbs = connections.reduce((sum, c) => sum + Math.abs(c.weight), 0);
+  return {
+    norm: Math.sqrt(sumSquares),
+    meanAbs: connections.length ? sumAbs / connections.length : 0
+  };
+};
@@ -1,184 +1,202 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import SnakePlayground from './SnakePlayground';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import NeuralNetworkEditor from './NeuralNetworkEditor';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { PlayCircle, PauseCircle, RotateCcw } from 'lucide-react';
-
-const DEFAULT_NETWORK_STATE = {
-  neurons: {
-    input: [],  // Will be initialized with vision + reward neurons
-    hidden: [], // User-added hidden neurons
-    output: []  // Movement neurons (up, down, left, right)
-  },
-  connections: []
-};
+import { Input } from '@/components/ui/input';
+import { PlayCircle, PauseCircle, RotateCcw, Repeat, Download, Upload } from 'lucide-react';
+import { createDefaultNetwork, syncEnvironmentNeurons } from './network-model';
+import { DEFAULT_SEED, parseSeed } from './random';
+import { DEFAULT_WORLD_CONFIG } from './snake-world';
+import { createWorld, getActions } from './environments';
+import EnvironmentPlayground from './environment-playground';
+import { serializeNetworkFile, parseNetworkFile, saveAutosave, loadAutosave } from './network-file';
+import { DEFAULT_CLOCK, createSimulation } from './simulation';
+import { useSimulationWorker } from './use-simulation-worker';
+import SimulationControls from './simulation-controls';
+import ManualControl from './manual-control';
+import PolicyPanel from './policy-panel';
+import { createHistory } from './history';
+import HistoryPanel from './history-panel';
+import ReceptiveFieldGallery from './receptive-field-gallery';
+import ReplayPanel from './replay-panel';
+import { getReplayFrame } from './recording';
+import { downloadFile } from './download-file';
+
+const AUTOSAVE_DELAY = 1000; // ms between autosaves while the network is edited
 
 const HebbianSnake = () => {
+  // Pick up where the last session left off, if it was autosaved; an autosave
+  // that can't be read is reported like a failed import
+  const [autosave] = useState(loadAutosave);
+  const autosaved = autosave.session;
+
   const [isLearning, setIsLearning] = useState(false);
-  const [networkState, setNetworkState] = useState(DEFAULT_NETWORK_STATE);
-  const [lastUpdateTime, setLastUpdateTime] = useState(Date.now());
+  const [worldConfig, setWorldConfig] = useState(() =>
+    autosaved ? autosaved.worldConfig : DEFAULT_WORLD_CONFIG
+  );
 
-  // Initialize network with default neurons
-  useEffect(() => {
-    // Create vision neurons (5x5 grid)
-    const visionNeurons = [];
-    for (let y = 0; y < 5; y++) {
-      for (let x = 0; x < 5; x++) {
-        visionNeurons.push({
-          id: `vision_${x}_${y}`,
-          type: 'input',
-          subtype: 'vision',
-          activity: 0
-        });
-      }
+  // Seeded runs: the world restarts whenever runId changes
+  const initialSeed = autosaved ? autosaved.seed : DEFAULT_SEED;
+  const [seed, setSeed] = useState(initialSeed);
+  const [seedInput, setSeedInput] = useState(String(initialSeed));
+  const [runId, setRunId] = useState(0);
+  const runStartNetworkRef = useRef(null);
+
+  // Network and world advance together on one clock (see simulation.ts), in
+  // a worker so training never blocks the page
+  const {
+    simulation,
+    send,
+    setNetwork: setNetworkState,
+    patchNetwork,
+    editNetwork,
+    networkRevision,
+    recording: finishedRecording
+  } = useSimulationWorker(() => createSimulation(
+    autosaved ? autosaved.network : createDefaultNetwork(DEFAULT_SEED),
+    createWorld(worldConfig, seed),
+    createHistory()
+  ));
+  const { network: networkState, world } = simulation;
+  const [clock, setClock] = useState(DEFAULT_CLOCK);
+  const [gameSpeed, setGameSpeed] = useState(200); // ms per frame
+  const [fastForward, setFastForward] = useState(1); // moves per frame
+
+  // Recording open for replay, and the frame shown in place of the live run
+  const [recording, setRecording] = useState(null);
+  const [replayIndex, setReplayIndex] = useState(null);
+  const replay = useMemo(
+    () => recording && replayIndex !== null ? getReplayFrame(recording, replayIndex) : null,
+    [recording, replayIndex]
+  );
+
+  // Stable so ManualControl only rebinds its keys when they change
+  const actions = useMemo(() => getActions(worldConfig), [worldConfig]);
+  const changeManualAction = useCallback((action) => send({ type: 'setManualAction', action }), [send]);
+  const stepMove = useCallback(() => send({ type: 'stepMove' }), [send]);
+
+  const [fileError, setFileError] = useState(autosave.error);
+  const [droppedConnections, setDroppedConnections] = useState(0);
+  const fileInputRef = useRef(null);
+  const autosaveTimerRef = useRef(null);
+  const latestSessionRef = useRef(null);
+
+  const restartWorld = () => setRunId(id => id + 1);
+
+  // World settings that change the sensors or actions (or the environment
+  // itself) also reshape the input and output layers. Connections of sensors
+  // that are gone, e.g. cells outside a smaller vision window, are dropped,
+  // and the user told how many.
+  const changeWorldConfig = (config) => {
+    const synced = syncEnvironmentNeurons(networkState, config);
+    setDroppedConnections(networkState.connections.length - synced.connections.length);
+    setWorldConfig(config);
+    patchNetwork({ type: 'syncEnvironment', worldConfig: config });
+  };
+
+  const toggleLearning = () => {
+    // Remember the network a run started from so it can be replayed
+    if (!isLearning && !runStartNetworkRef.current) {
+      runStartNetworkRef.current = networkState;
+    }
+    // Keep what was learned once the run stops
+    if (isLearning) saveSession();
+    setIsLearning(!isLearning);
+  };
+
+  const changeSeed = (text) => {
+    setSeedInput(text);
+    const value = parseSeed(text);
+    if (value === null) return;
+
+    setIsLearning(false);
+    setSeed(value);
+    patchNetwork({ type: 'reseed', seed: value });
+    runStartNetworkRef.current = null;
+    restartWorld();
+  };
+
+  // Restart the world and network exactly as they were when this seed's run began
+  const replaySeed = () => {
+    setIsLearning(false);
+    const startNetwork = runStartNetworkRef.current;
+    if (startNetwork) setNetworkState(startNetwork);
+    else patchNetwork({ type: 'reseed', seed });
+    restartWorld();
+  };
+
+  const exportNetwork = () => {
+    const text = serializeNetworkFile({ network: networkState, worldConfig, seed });
+    downloadFile(text, `hebbian-network-${seed}.json`);
+  };
+
+  const importNetwork = async (file) => {
+    try {
+      const { network, worldConfig: loadedWorldConfig, seed: loadedSeed } = parseNetworkFile(await file.text());
+      setIsLearning(false);
+      setNetworkState(network);
+      setWorldConfig(loadedWorldConfig);
+      setSeed(loadedSeed);
+      setSeedInput(String(loadedSeed));
+      runStartNetworkRef.current = null;
+      restartWorld();
+      setFileError(null);
+    } catch (error) {
+      setFileError(`${file.name}: ${error.message}`);
     }
+  };
+
+  // Autosave after edits, at most once per AUTOSAVE_DELAY, when learning
+  // stops and when the page is left, always writing the latest state. Weights
+  // learned while running aren't saved as they stream in.
+  useEffect(() => {
+    latestSessionRef.current = { network: networkState, worldConfig, seed };
+  }, [networkState, worldConfig, seed]);
+
+  const saveSession = () => {
+    const error = saveAutosave(latestSessionRef.current);
+    if (error) setFileError(error);
+  };
 
-    // Add reward neuron
-    visionNeurons.push({
-      id: 'reward',
-      type: 'input',
-      subtype: 'reward',
-      activity: 0
-    });
-
-    // Create output neurons
-    const outputNeurons = ['up', 'down', 'left', 'right'].map(direction => ({
-      id: direction,
-      type: 'output',
-      activity: 0
-    }));
-
-    setNetworkState(prev => ({
-      ...prev,
-      neurons: {
-        ...prev.neurons,
-        input: visionNeurons,
-        output: outputNeurons
-      }
-    }));
+  useEffect(() => {
+    if (autosaveTimerRef.current) return;
+    autosaveTimerRef.current = setTimeout(() => {
+      autosaveTimerRef.current = null;
+      saveSession();
+    }, AUTOSAVE_DELAY);
+  }, [networkRevision, worldConfig, seed]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', saveSession);
+    return () => window.removeEventListener('pagehide', saveSession);
   }, []);
 
-  // Update network inputs based on game state
-  const updateNetworkInputs = useCallback((visionGrid, hasReward) => {
-    if (!networkState) return;
-
-    setNetworkState(prev => {
-      const newInputNeurons = [...prev.neurons.input];
-      
-      // Update vision neuron activities
-      visionGrid.forEach((row, y) => {
-        row.forEach((cell, x) => {
-          const neuronIndex = y * 5 + x;
-          if (newInputNeurons[neuronIndex]) {
-            newInputNeurons[neuronIndex] = {
-              ...newInputNeurons[neuronIndex],
-              activity: cell
-            };
-          }
-        });
-      });
-
-      // Update reward neuron activity
-      const rewardNeuron = newInputNeurons.find(n => n.id === 'reward');
-      if (rewardNeuron) {
-        rewardNeuron.activity = hasReward ? 1 : 0;
-      }
-
-      return {
-        ...prev,
-        neurons: {
-          ...prev.neurons,
-          input: newInputNeurons
-        }
-      };
-    });
-  }, [networkState]);
-
-  // Get movement direction from network outputs
-  const getNextMove = useCallback(() => {
-    if (!networkState?.neurons?.output) return 'right';
-
-    const outputNeurons = networkState.neurons.output;
-    const maxOutput = outputNeurons.reduce(
-      (max, neuron) => neuron.activity > max.activity ? neuron : max,
-      outputNeurons[0]
-    );
-
-    return maxOutput.id;
-  }, [networkState]);
-
-  // Network update loop
+  // Restart the world and its history from the seed whenever a new run begins
   useEffect(() => {
-    if (!isLearning) return;
-
-    const updateLoop = () => {
-      const currentTime = Date.now();
-      const dt = (currentTime - lastUpdateTime) / 1000; // Convert to seconds
-      setLastUpdateTime(currentTime);
-
-      setNetworkState(prev => {
-        // Deep copy the network state
-        const newState = JSON.parse(JSON.stringify(prev));
-
-        // Update neuron activities
-        const allNeurons = [...newState.neurons.input, ...newState.neurons.hidden, ...newState.neurons.output];
-        
-        // First pass: Calculate new activities
-        allNeurons.forEach(neuron => {
-          if (neuron.type !== 'input') { // Don't update input neurons' activities
-            const incomingConnections = newState.connections.filter(c => c.to === neuron.id);
-            const totalInput = incomingConnections.reduce((sum, conn) => {
-              const sourceNeuron = allNeurons.find(n => n.id === conn.from);
-              return sum + (sourceNeuron ? sourceNeuron.activity * conn.weight : 0);
-            }, 0);
-
-            // Apply activation function and time constant
-            if (neuron.type === 'hidden') {
-              const dA = (-neuron.activity + totalInput) / neuron.timeConstant;
-              neuron.activity = neuron.activity + dA * dt;
-              
-              // Apply activation function
-              if (neuron.activation === 'sigmoid') {
-                neuron.activity = 1 / (1 + Math.exp(-(neuron.activity - neuron.threshold)));
-              } else if (neuron.activation === 'relu') {
-                neuron.activity = Math.max(0, neuron.activity - neuron.threshold);
-              } else { // threshold
-                neuron.activity = neuron.activity > neuron.threshold ? 1 : 0;
-              }
-            } else {
-              // Output neurons use simple linear activation
-              neuron.activity = Math.max(0, Math.min(1, totalInput));
-            }
-          }
-        });
-
-        // Second pass: Update weights based on Hebbian learning
-        newState.connections.forEach(conn => {
-          const preNeuron = allNeurons.find(n => n.id === conn.from);
-          const postNeuron = allNeurons.find(n => n.id === conn.to);
-
-          if (preNeuron && postNeuron) {
-            // Hebbian update
-            const deltaW = conn.learningRate * preNeuron.activity * postNeuron.activity;
-            
-            // Apply decay
-            const decayFactor = 1 - conn.decay;
-            
-            // Update weight with bounds
-            conn.weight = Math.max(-1, Math.min(1, 
-              conn.weight * decayFactor + deltaW
-            ));
-          }
-        });
-
-        return newState;
-      });
-    };
-
-    const intervalId = setInterval(updateLoop, 50); // 20 updates per second
-    return () => clearInterval(intervalId);
-  }, [isLearning, lastUpdateTime]);
+    send({ type: 'restart', worldConfig, seed });
+  }, [seed, runId]);
+
+  // Apply settings changed mid-run
+  useEffect(() => {
+    send({ type: 'reconfigure', worldConfig });
+  }, [worldConfig]);
+
+  // The game loop runs in the worker on the fixed clock, so timer jitter or
+  // tab throttling can't change a run
+  useEffect(() => {
+    send({ type: 'setPace', clock, gameSpeed, fastForward });
+  }, [gameSpeed, fastForward, clock]);
+
+  useEffect(() => {
+    send({ type: 'setRunning', running: isLearning });
+  }, [isLearning]);
+
+  // Open each recording as soon as the worker has finished it
+  useEffect(() => {
+    if (!finishedRecording) return;
+    setRecording(finishedRecording);
+    setReplayIndex(null);
+  }, [finishedRecording]);
 
   return (
     <div className="p-4 space-y-4">
@@ -186,7 +204,7 @@ const HebbianSnake = () => {
         <CardContent className="p-4">
           <div className="flex gap-4 items-center">
             <Button
-              onClick={() => setIsLearning(!isLearning)}
+              onClick={toggleLearning}
               variant={isLearning ? "destructive" : "default"}
             >
               {isLearning ? <PauseCircle className="mr-2" /> : <PlayCircle className="mr-2" />}
@@ -195,29 +213,152 @@ const HebbianSnake = () => {
             <Button
               onClick={() => {
                 setIsLearning(false);
-                setNetworkState(DEFAULT_NETWORK_STATE);
+                setNetworkState(createDefaultNetwork(seed, worldConfig));
+                runStartNetworkRef.current = null;
+                restartWorld();
               }}
               variant="outline"
             >
               <RotateCcw className="mr-2" />
               Reset
             </Button>
+            <div className="flex gap-2 items-center">
+              <span className="text-sm">Seed</span>
+              <Input
+                className={`w-32 ${parseSeed(seedInput) === null ? 'border-red-500' : ''}`}
+                value={seedInput}
+                onChange={(e) => changeSeed(e.target.value)}
+              />
+            </div>
+            <Button onClick={replaySeed} variant="outline">
+              <Repeat className="mr-2" />
+              Replay Seed
+            </Button>
+            <Button onClick={exportNetwork} variant="outline">
+              <Download className="mr-2" />
+              Export
+            </Button>
+            <Button onClick={() => fileInputRef.current.click()} variant="outline">
+              <Upload className="mr-2" />
+              Import
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files[0]) importNetwork(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
           </div>
+          {fileError && (
+            <div className="mt-2 text-sm text-red-600">{fileError}</div>
+          )}
+          {droppedConnections > 0 && (
+            <div className="mt-2 text-sm text-amber-700">
+              The new world settings removed {droppedConnections} connection{droppedConnections > 1 ? 's' : ''} from
+              inputs that no longer exist.
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      <Card>
+        <CardContent className="p-4">
+          <SimulationControls
+            clock={clock}
+            onClockChange={setClock}
+            gameSpeed={gameSpeed}
+            onGameSpeedChange={setGameSpeed}
+            fastForward={fastForward}
+            onFastForwardChange={setFastForward}
+            onStepTick={() => send({ type: 'stepTick' })}
+            onStepMove={stepMove}
+            isRunning={isLearning}
+            tickIndex={simulation.tickIndex}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4">
+          <ManualControl
+            manualAction={simulation.manualAction}
+            actions={actions}
+            lastAction={simulation.lastAction}
+            isRunning={isLearning}
+            replaying={!!replay}
+            onManualActionChange={changeManualAction}
+            onStepMove={stepMove}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4">
+          <PolicyPanel
+            network={networkState}
+            patchNetwork={patchNetwork}
+            lastAction={simulation.lastAction}
+            move={world.stats.moves}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4">
+          <ReplayPanel
+            recordedFrames={simulation.recordedFrames}
+            onStartRecording={() => send({ type: 'startRecording' })}
+            onStopRecording={() => send({ type: 'stopRecording' })}
+            recording={recording}
+            onRecordingChange={setRecording}
+            frameIndex={replayIndex}
+            onFrameIndexChange={setReplayIndex}
+            frame={replay}
+          />
+        </CardContent>
+      </Card>
+
+      {/* A replayed frame is shown read-only in place of the live run */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-        <SnakePlayground
-          onVisionUpdate={updateNetworkInputs}
-          getNextMove={getNextMove}
+        <EnvironmentPlayground
+          world={replay ? replay.world : world}
           isRunning={isLearning}
+          worldConfig={replay ? replay.world.config : worldConfig}
+          onWorldConfigChange={changeWorldConfig}
+          seed={seed}
+          readOnly={!!replay}
         />
         <NeuralNetworkEditor
-          networkState={networkState}
-          setNetworkState={setNetworkState}
+          networkState={replay ? replay.network : networkState}
+          patchNetwork={patchNetwork}
+          editNetwork={editNetwork}
+          readOnly={!!replay}
           isLearning={isLearning}
         />
       </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <HistoryPanel
+            history={simulation.history}
+            network={networkState}
+            revision={networkRevision}
+            onTrackedChange={(tracked) => send({ type: 'setTracked', tracked })}
+            baselines={simulation.baselines.map(run => run.type)}
+            onBaselinesChange={(baselines) => send({ type: 'setBaselines', baselines })}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4">
+          <ReceptiveFieldGallery network={networkState} revision={networkRevision} />
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Download, X } from 'lucide-react';
+import { getAllNeurons } from './network-model';
+import { connectionKey, historyToCsv, getBaselineTypes } from './history';
+import { BASELINE_AGENTS } from './baseline-agents';
+import { downloadFile } from './download-file';
+import TimeSeriesChart from './time-series-chart';
+
+const SERIES_COLORS = ['#2196F3', '#F44336', '#4CAF50', '#FF9800', '#9C27B0', '#009688', '#795548', '#607D8B'];
+const BASELINE_COLORS = { random: '#9E9E9E', greedy: '#FF9800', qLearning: '#9C27B0' };
+const MAX_MATCHES = 20; // connections listed for a search
+
+// Time-series view of the run history (see history.ts). Weights and
+// activities are only recorded for the connections and neurons tracked here;
+// connections are found by searching their keys, as large networks have
+// thousands. The lists only change with the network's revision (see
+// use-simulation-worker.ts). Baseline agents picked here run beside the
+// network and their reward rates are drawn over its own, from the move they
+// were picked at.
+const HistoryPanel = ({ history, network, revision, onTrackedChange, baselines, onBaselinesChange }) => {
+  const [range, setRange] = useState(null);
+  const [connectionQuery, setConnectionQuery] = useState('');
+  const { tracked, samples } = history;
+
+  const track = (changes) => onTrackedChange({ ...tracked, ...changes });
+
+  const weightSeries = tracked.connections.map((key, i) => ({
+    label: key,
+    color: SERIES_COLORS[i % SERIES_COLORS.length],
+    value: (s) => s.weights[key]
+  }));
+  const rewardSeries = [
+    { label: 'network', color: SERIES_COLORS[2], value: (s) => s.rewardRate },
+    ...getBaselineTypes(history).map(type => ({
+      label: BASELINE_AGENTS[type].name,
+      color: BASELINE_COLORS[type],
+      value: (s) => (s.baselineRates || {})[type]
+    }))
+  ];
+  const activitySeries = tracked.neurons.map((id, i) => ({
+    label: id,
+    color: SERIES_COLORS[i % SERIES_COLORS.length],
+    value: (s) => s.activities[id]
+  }));
+
+  const connectionKeys = useMemo(() => network.connections.map(connectionKey), [revision]);
+  const neuronIds = useMemo(() => getAllNeurons(network).map(n => n.id), [revision]);
+  const matchingConnections = useMemo(() => {
+    const query = connectionQuery.trim();
+    if (!query) return [];
+    return connectionKeys
+      .filter(key => key.includes(query) && !tracked.connections.includes(key))
+      .slice(0, MAX_MATCHES);
+  }, [connectionKeys, connectionQuery, tracked.connections]);
+  const untrackedNeurons = neuronIds.filter(id => !tracked.neurons.includes(id));
+
+  const trackConnection = (key) => {
+    track({ connections: [...tracked.connections, key] });
+    setConnectionQuery('');
+  };
+
+  const trackedList = (items, onRemove) => (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {items.map(item => (
+        <span key={item} className="flex items-center gap-1 text-xs px-2 py-1 bg-gray-100 rounded">
+          {item}
+          <X className="w-3 h-3 cursor-pointer" onClick={() => onRemove(item)} />
+        </span>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">
+          History ({samples.length} samples{history.stride > 1 ? `, every ${history.stride} moves` : ''})
+        </h3>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setRange(null)} disabled={!range}>
+            Reset Zoom
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadFile(historyToCsv(history), 'hebbian-history.csv', 'text/csv')}
+            disabled={samples.length === 0}
+          >
+            <Download className="mr-2" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <Input
+            value={connectionQuery}
+            onChange={(e) => setConnectionQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && matchingConnections.length) trackConnection(matchingConnections[0]);
+            }}
+            placeholder="Track connection weight: search, e.g. vision_2_2->"
+          />
+          {connectionQuery.trim() && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {matchingConnections.length ? matchingConnections.map(key => (
+                <Button key={key} size="sm" variant="outline" onClick={() => trackConnection(key)}>
+                  {key}
+                </Button>
+              )) : <span className="text-xs">No untracked connection matches.</span>}
+            </div>
+          )}
+          {trackedList(tracked.connections, key => track({ connections: tracked.connections.filter(k => k !== key) }))}
+        </div>
+        <div className="flex-1">
+          <select
+            className="w-full p-2 border rounded"
+            value=""
+            onChange={(e) => track({ neurons: [...tracked.neurons, e.target.value] })}
+          >
+            <option value="" disabled>Track neuron activity…</option>
+            {untrackedNeurons.map(id => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+          {trackedList(tracked.neurons, id => track({ neurons: tracked.neurons.filter(n => n !== id) }))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 items-center text-sm">
+        <span>Compare with:</span>
+        {Object.entries(BASELINE_AGENTS).map(([type, agent]) => (
+          <label key={type} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={baselines.includes(type)}
+              onChange={(e) => onBaselinesChange(e.target.checked
+                ? Object.keys(BASELINE_AGENTS).filter(t => t === type || baselines.includes(t))
+                : baselines.filter(t => t !== type))}
+            />
+            {agent.name}
+          </label>
+        ))}
+      </div>
+
+      <TimeSeriesChart
+        title="Reward Rate (rolling)"
+        samples={samples}
+        series={rewardSeries}
+        range={range}
+        onRangeChange={setRange}
+      />
+      {Object.entries(history.baselineStarts).map(([type, move]) => (
+        <div key={type} className="text-xs text-gray-600">
+          {BASELINE_AGENTS[type].name} joined at move {move}
+        </div>
+      ))}
+      <TimeSeriesChart
+        title="Weight Magnitude (L2 norm)"
+        samples={samples}
+        series={[{ label: 'weight norm', color: SERIES_COLORS[0], value: (s) => s.weightNorm }]}
+        range={range}
+        onRangeChange={setRange}
+      />
+      {weightSeries.length > 0 && (
+        <TimeSeriesChart
+          title="Connection Weights"
+          samples={samples}
+          series={weightSeries}
+          range={range}
+          onRangeChange={setRange}
+          yRange={[-1, 1]}
+          guides={[-1, 0, 1]}
+        />
+      )}
+      {activitySeries.length > 0 && (
+        <TimeSeriesChart
+          title="Neuron Activities"
+          samples={samples}
+          series={activitySeries}
+          range={range}
+          onRangeChange={setRange}
+        />
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
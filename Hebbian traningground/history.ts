@@ -0,0 +1,101 @@
+// Time series recorded over a run: rolling reward rate, weight magnitude and
+// the weights and activities the user chose to track. One sample is taken per
+// move; once MAX_HISTORY_SAMPLES is reached every other sample is dropped and
+// the sampling stride doubles, so the history always spans the whole run.
+
+import { getCompiledActivity, getCompiledWeight, getCompiledWeightNorm } from './compiled-network';
+
+export const MAX_HISTORY_SAMPLES = 2000;
+export const REWARD_RATE_WINDOW = 100; // moves in the rolling reward rate
+
+export const connectionKey = (conn) => `${conn.from}->${conn.to}`;
+
+export const createHistory = (tracked = { connections: [], neurons: [] }) => ({
+  tracked, // connection keys and neuron ids to record
+  stride: 1,
+  samples: [],
+  recentRewards: [], // 1 for each of the last REWARD_RATE_WINDOW moves that found food
+  baselineStarts: {} // move each baseline joined at, for those added mid-run
+});
+
+// Start a fresh run but keep what is being tracked
+export const clearHistory = (history) => createHistory(history.tracked);
+
+export const setTracked = (history, tracked) => ({ ...history, tracked });
+
+// Rolling window of moves that found food, after the move that led to world
+export const addRecentReward = (recentRewards, world) =>
+  [...recentRewards, world.lastReward > 0 ? 1 : 0].slice(-REWARD_RATE_WINDOW);
+
+export const getRewardRate = (recentRewards) =>
+  recentRewards.length ? recentRewards.reduce((sum, r) => sum + r, 0) / recentRewards.length : 0;
+
+// Record the state of a compiled network (see compiled-network.ts) after a
+// finished move, along with the reward rate of each baseline run beside it
+// (see baseline-agents.ts)
+export const recordSample = (history, compiled, world, baselines = []) => {
+  const recentRewards = addRecentReward(history.recentRewards, world);
+  const move = world.stats.moves;
+  if (move % history.stride !== 0) return { ...history, recentRewards };
+
+  const weights = {};
+  history.tracked.connections.forEach(key => {
+    weights[key] = getCompiledWeight(compiled, key);
+  });
+  const activities = {};
+  history.tracked.neurons.forEach(id => {
+    activities[id] = getCompiledActivity(compiled, id);
+  });
+
+  const sample = {
+    move,
+    rewardRate: getRewardRate(recentRewards),
+    baselineRates: Object.fromEntries(baselines.map(run => [run.type, getRewardRate(run.recentRewards)])),
+    weightNorm: getCompiledWeightNorm(compiled),
+    weights,
+    activities
+  };
+
+  let { samples, stride } = history;
+  samples = [...samples, sample];
+  if (samples.length > MAX_HISTORY_SAMPLES) {
+    stride *= 2;
+    samples = samples.filter(s => s.move % stride === 0);
+  }
+  return { ...history, samples, stride, recentRewards };
+};
+
+// Note that a baseline joined the run at the given move; samples before it
+// have no reward rate for it
+export const noteBaselineStart = (history, type, move) => ({
+  ...history,
+  baselineStarts: { ...history.baselineStarts, [type]: move }
+});
+
+// Baseline types with a reward rate in any sample
+export const getBaselineTypes = (history) =>
+  [...new Set(history.samples.flatMap(s => Object.keys(s.baselineRates || {})))];
+
+// One row per sample; tracked series that were added later stay empty before
+export const historyToCsv = (history) => {
+  const { connections, neurons } = history.tracked;
+  const baselines = getBaselineTypes(history);
+  const header = [
+    'move',
+    'rewardRate',
+    ...baselines.map(type => `rewardRate:${type}`),
+    'weightNorm',
+    ...connections.map(key => `weight:${key}`),
+    ...neurons.map(id => `activity:${id}`)
+  ];
+  const value = (v) => v === undefined || v === null ? '' : v;
+  const rows = history.samples.map(s => [
+    s.move,
+    s.rewardRate,
+    ...baselines.map(type => value((s.baselineRates || {})[type])),
+    s.weightNorm,
+    ...connections.map(key => value(s.weights[key])),
+    ...neurons.map(id => value(s.activities[id]))
+  ]);
+  return [header, ...rows].map(row => row.join(',')).join('\n') + '\n';
+};
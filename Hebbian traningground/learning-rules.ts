@@ -0,0 +1,111 @@
+// Registry of plasticity rules. A connection picks one by key in `conn.rule`,
+// falling back to the network-wide `network.defaultRule`.
+//
+// Each rule returns the weight change for one tick; decay and the [-1, 1]
+// clamp are applied by the network afterwards. Rules may keep per-connection
+// state (traces, running means) on the connection itself, listed in `state`
+// so it can be left out of saved files. `params` describe the rule's tunable
+// values so the editor can render sliders for them.
+
+export const DEFAULT_RULE = 'hebb';
+
+export const LEARNING_RULES = {
+  hebb: {
+    name: 'Hebbian',
+    params: [],
+    state: [],
+    weightChange: (conn, pre, post) => conn.learningRate * pre * post
+  },
+
+  modulated: {
+    name: 'Reward-modulated',
+    params: [
+      { key: 'traceDecay', label: 'Trace Decay', min: 0, max: 1, step: 0.01, default: 0.1 },
+      { key: 'modulationGain', label: 'Modulation Gain', min: 0, max: 5, step: 0.1, default: 1.0 }
+    ],
+    state: ['eligibility'],
+    // Eligibility trace of pre * post, gated by the global dopamine signal
+    weightChange: (conn, pre, post, { dopamine }) => {
+      conn.eligibility = (conn.eligibility || 0) * (1 - getRuleParam(conn, 'modulated', 'traceDecay'))
+        + pre * post;
+      return conn.learningRate * getRuleParam(conn, 'modulated', 'modulationGain') * dopamine * conn.eligibility;
+    }
+  },
+
+  oja: {
+    name: "Oja's rule",
+    params: [],
+    state: [],
+    // Hebbian growth with a forgetting term that keeps the weight vector normalised
+    weightChange: (conn, pre, post) => conn.learningRate * post * (pre - post * conn.weight)
+  },
+
+  bcm: {
+    name: 'BCM',
+    params: [
+      { key: 'thresholdRate', label: 'Threshold Rate', min: 0, max: 1, step: 0.01, default: 0.05 }
+    ],
+    state: ['bcmThreshold'],
+    // Potentiate above the sliding threshold, depress below it; the threshold tracks post^2
+    weightChange: (conn, pre, post) => {
+      const threshold = conn.bcmThreshold || 0;
+      const deltaW = conn.learningRate * pre * post * (post - threshold);
+      conn.bcmThreshold = threshold + getRuleParam(conn, 'bcm', 'thresholdRate') * (post * post - threshold);
+      return deltaW;
+    }
+  },
+
+  covariance: {
+    name: 'Covariance',
+    params: [
+      { key: 'meanRate', label: 'Mean Rate', min: 0, max: 1, step: 0.01, default: 0.05 }
+    ],
+    state: ['preMean', 'postMean'],
+    // (pre - mean)(post - mean) against running averages of both activities
+    weightChange: (conn, pre, post) => {
+      const preMean = conn.preMean || 0;
+      const postMean = conn.postMean || 0;
+      const deltaW = conn.learningRate * (pre - preMean) * (post - postMean);
+      const meanRate = getRuleParam(conn, 'covariance', 'meanRate');
+      conn.preMean = preMean + meanRate * (pre - preMean);
+      conn.postMean = postMean + meanRate * (post - postMean);
+      return deltaW;
+    }
+  },
+
+  stdp: {
+    name: 'Spike-timing',
+    params: [
+      { key: 'potentiation', label: 'Potentiation (A+)', min: 0, max: 2, step: 0.05, default: 1.0 },
+      { key: 'depression', label: 'Depression (A-)', min: 0, max: 2, step: 0.05, default: 1.05 },
+      { key: 'timingDecay', label: 'Timing Trace Decay', min: 0, max: 1, step: 0.01, default: 0.2 }
+    ],
+    state: ['preTrace', 'postTrace'],
+    // Pre-before-post (pre trace meets post now) potentiates,
+    // post-before-pre (post trace meets pre now) depresses
+    weightChange: (conn, pre, post) => {
+      const preTrace = conn.preTrace || 0;
+      const postTrace = conn.postTrace || 0;
+      const deltaW = conn.learningRate * (
+        getRuleParam(conn, 'stdp', 'potentiation') * preTrace * post
+        - getRuleParam(conn, 'stdp', 'depression') * postTrace * pre
+      );
+      const keep = 1 - getRuleParam(conn, 'stdp', 'timingDecay');
+      conn.preTrace = preTrace * keep + pre;
+      conn.postTrace = postTrace * keep + post;
+      return deltaW;
+    }
+  }
+};
+
+export const getRule = (key) => LEARNING_RULES[key] || LEARNING_RULES[DEFAULT_RULE];
+
+export const getConnectionRule = (network, conn) =>
+  conn.rule || network.defaultRule || DEFAULT_RULE;
+
+// A rule parameter stored on the connection, or the rule's default
+export const getRuleParam = (conn, ruleKey, paramKey) => {
+  if (conn[paramKey] !== undefined) return conn[paramKey];
+  const param = getRule(ruleKey).params.find(p => p.key === paramKey);
+  return param ? param.default : 0;
+};
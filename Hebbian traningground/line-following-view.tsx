@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from 'react';
+import { TRAIL_LENGTH, getSensorCells } from './line-following';
+
+const CELL_SIZE = 16;
+
+// The track scrolls upwards: each row is one earlier move, the bottom row is
+// now, with the cells under the agent's sensors shaded
+const LineFollowingView = ({ world }) => {
+  const { trackWidth } = world.config;
+  const rows = TRAIL_LENGTH + 1;
+  const canvasRef = useRef(null);
+
+  const render = () => {
+    const ctx = canvasRef.current.getContext('2d');
+    ctx.clearRect(0, 0, trackWidth * CELL_SIZE, rows * CELL_SIZE);
+
+    const history = [...world.trail, { line: world.line, agent: world.agent }];
+    const top = rows - history.length;
+    history.forEach(({ line, agent }, i) => {
+      const y = (top + i) * CELL_SIZE;
+      ctx.fillStyle = '#795548';
+      ctx.fillRect(line * CELL_SIZE, y, CELL_SIZE, CELL_SIZE);
+      ctx.fillStyle = agent === line ? '#4CAF50' : '#F44336';
+      ctx.beginPath();
+      ctx.arc(agent * CELL_SIZE + CELL_SIZE / 2, y + CELL_SIZE / 2, CELL_SIZE / 3, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    ctx.fillStyle = '#FF000022';
+    getSensorCells(world).forEach(x => {
+      if (x !== null) ctx.fillRect(x * CELL_SIZE, (rows - 1) * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+    });
+  };
+
+  useEffect(() => {
+    if (canvasRef.current) render();
+  }, [world]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={trackWidth * CELL_SIZE}
+      height={rows * CELL_SIZE}
+      className="border border-gray-200"
+    />
+  );
+};
+
+export default LineFollowingView;
@@ -0,0 +1,98 @@
+// Framework-free 1-D line-following task. A line wanders across a track of
+// `trackWidth` cells; the agent sits on the same track and sees the cells
+// around it through a row of `sensorCount` line sensors. Each move it steps
+// left, stays or steps right, and is rewarded for every move that ends on the
+// line. Pure functions over a plain state, like snake-world.ts.
+
+import { createRng } from './random';
+
+export const LINE_FOLLOWING_CONFIG = {
+  environment: 'lineFollowing',
+  trackWidth: 21,
+  sensorCount: 5, // odd, centred on the agent
+  drift: 0.3      // chance per move that the line shifts by one cell
+};
+
+export const LINE_ACTIONS = { left: -1, stay: 0, right: 1 };
+export const TRAIL_LENGTH = 30; // past rows kept for the view
+
+export const lineSensorId = (i) => `line_${i}`;
+
+const clampToTrack = (config, x) => Math.max(0, Math.min(config.trackWidth - 1, x));
+
+export const createLineWorld = (config = LINE_FOLLOWING_CONFIG, seed = 0) => {
+  const rng = createRng(seed);
+  const centre = Math.floor(config.trackWidth / 2);
+  return {
+    config,
+    seed,
+    rngState: rng.getState(),
+    line: centre,
+    agent: centre,
+    trail: [], // { line, agent } of earlier moves, oldest first
+    stats: { rewardsCollected: 0, moves: 0 },
+    lastReward: 0,
+    episode: { number: 1, steps: 0, foodEaten: 0 },
+    episodes: []
+  };
+};
+
+// A narrower track restarts the task, anything else just applies
+export const reconfigureLineWorld = (state, config) => {
+  if (config === state.config) return state;
+  if (config.trackWidth !== state.config.trackWidth) return createLineWorld(config, state.seed);
+  return { ...state, config };
+};
+
+// Track cell under each sensor, left to right; null beyond the track's ends
+export const getSensorCells = (state) => {
+  const { sensorCount, trackWidth } = state.config;
+  const offset = Math.floor(sensorCount / 2);
+  return Array.from({ length: sensorCount }, (_, i) => {
+    const x = state.agent - offset + i;
+    return x >= 0 && x < trackWidth ? x : null;
+  });
+};
+
+export const observeLine = (state) => {
+  const onLine = state.agent === state.line;
+  const inputs = { reward: onLine ? 1 : 0 };
+  getSensorCells(state).forEach((x, i) => {
+    inputs[lineSensorId(i)] = x === state.line ? 1 : 0;
+  });
+  return { inputs, hasReward: onLine };
+};
+
+export const stepLine = (state, action) => {
+  const { config } = state;
+  const rng = createRng(state.rngState);
+  const agent = clampToTrack(config, state.agent + (LINE_ACTIONS[action] || 0));
+
+  // The line moves after the agent, so following it means reacting to what
+  // the sensors showed this move
+  let { line } = state;
+  if (rng.next() < config.drift) {
+    line = clampToTrack(config, line + (rng.next() < 0.5 ? -1 : 1));
+  }
+
+  const onLine = agent === state.line;
+  const stats = {
+    moves: state.stats.moves + 1,
+    rewardsCollected: state.stats.rewardsCollected + (onLine ? 1 : 0)
+  };
+
+  return {
+    ...state,
+    rngState: rng.getState(),
+    line,
+    agent,
+    trail: [...state.trail, { line: state.line, agent }].slice(-TRAIL_LENGTH),
+    stats,
+    lastReward: onLine ? 1 : 0,
+    episode: {
+      ...state.episode,
+      steps: state.episode.steps + 1,
+      foodEaten: state.episode.foodEaten + (onLine ? 1 : 0)
+    }
+  };
+};
@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Keyboard, Bot } from 'lucide-react';
+
+// Arrow key to move, first one the environment has (line following steers
+// with left and right and stays with up or down)
+const KEY_ACTIONS = {
+  ArrowUp: ['up', 'stay'],
+  ArrowDown: ['down', 'stay'],
+  ArrowLeft: ['left'],
+  ArrowRight: ['right']
+};
+
+// Manual driving with teacher forcing (see simulation.ts): the arrow keys pick
+// the move and the network learns with its outputs clamped to it. While
+// paused each key press also runs one move, for demonstrating step by step,
+// except while a recording is replayed in place of the live run.
+const ManualControl = ({
+  manualAction,
+  actions,
+  lastAction,
+  isRunning,
+  replaying,
+  onManualActionChange,
+  onStepMove
+}) => {
+  const driving = manualAction !== null;
+
+  useEffect(() => {
+    if (!driving) return;
+    const handleKeyDown = (event) => {
+      if (event.target.closest && event.target.closest('input, select, textarea')) return;
+      const action = (KEY_ACTIONS[event.key] || []).find(a => actions.includes(a));
+      if (!action) return;
+      event.preventDefault();
+      onManualActionChange(action);
+      if (!isRunning && !replaying) onStepMove();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [driving, actions, isRunning, replaying, onManualActionChange, onStepMove]);
+
+  // Take over heading the way the network last went
+  const takeControl = () => onManualActionChange(
+    lastAction && actions.includes(lastAction.action) ? lastAction.action : actions[0]
+  );
+
+  return (
+    <div className="flex gap-4 items-center">
+      <Button onClick={driving ? () => onManualActionChange(null) : takeControl} variant={driving ? 'default' : 'outline'}>
+        {driving ? <Bot className="mr-2" /> : <Keyboard className="mr-2" />}
+        {driving ? 'Hand Control to Network' : 'Drive with Arrow Keys'}
+      </Button>
+      <span className="text-sm">
+        {driving
+          ? `Driving: ${manualAction}. The network learns with its outputs clamped to your moves.`
+          : 'The network is driving.'}
+      </span>
+    </div>
+  );
+};
+
+export default ManualControl;
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDefaultNetwork, getAllNeurons } from './network-model';
+import { applyTemplate } from './network-templates';
+import { createWorld } from './environments';
+import { DEFAULT_WORLD_CONFIG } from './snake-world';
+import { createSimulation, runMoves } from './simulation';
+import { serializeNetworkFile, parseNetworkFile } from './network-file';
+
+const SEED = 21;
+const WORLD_CONFIG = {
+  ...DEFAULT_WORLD_CONFIG,
+  visionChannels: ['food', 'obstacle'],
+  boundary: 'walls',
+  obstacles: [{ x: 3, y: 4 }]
+};
+
+// A network that has learned for a while, with a signed neuron and a rule override
+const trainedSession = () => {
+  let network = applyTemplate(createDefaultNetwork(SEED, WORLD_CONFIG), 'sparse', { size: 3 }, true);
+  network = {
+    ...network,
+    daleLaw: true,
+    outputMode: 'softmax',
+    neurons: { ...network.neurons, hidden: network.neurons.hidden.map((n, i) => i === 0 ? { ...n, sign: 'excitatory' } : n) },
+    connections: network.connections.map((c, i) => i === 0 ? { ...c, rule: 'stdp' } : c)
+  };
+  const trained = runMoves(createSimulation(network, createWorld(WORLD_CONFIG, SEED)), 30).network;
+  return { network: trained, worldConfig: WORLD_CONFIG, seed: SEED };
+};
+
+test('a saved network loads back as it was saved', () => {
+  const session = trainedSession();
+  const text = serializeNetworkFile(session);
+  const loaded = parseNetworkFile(text);
+
+  assert.equal(loaded.seed, SEED);
+  assert.deepEqual(loaded.worldConfig, WORLD_CONFIG);
+  assert.deepEqual(loaded.network.connections.map(c => [c.from, c.to, c.weight, c.rule]),
+    session.network.connections.map(c => [c.from, c.to, c.weight, c.rule]));
+  assert.deepEqual(getAllNeurons(loaded.network).map(n => [n.id, n.x, n.y, n.sign]),
+    getAllNeurons(session.network).map(n => [n.id, n.x, n.y, n.sign]));
+  assert.equal(serializeNetworkFile(loaded), text);
+});
+
+test('a loaded network starts at rest and is reseeded from the file', () => {
+  const loaded = parseNetworkFile(serializeNetworkFile(trainedSession()));
+  assert.ok(getAllNeurons(loaded.network).every(n => !n.activity));
+  assert.equal(loaded.network.rngState, createDefaultNetwork(SEED).rngState);
+});
+
+// The trained session's file after `edit`, parsed
+const parseEdited = (edit) => {
+  const data = JSON.parse(serializeNetworkFile(trainedSession()));
+  edit(data.network, data.world);
+  return () => parseNetworkFile(JSON.stringify(data));
+};
+
+test('an invalid file is rejected with the path of the bad value', () => {
+  assert.throws(parseEdited(network => { network.connections[1].weight = 2; }), /network\.connections\[1\]\.weight/);
+});
+
+test('a file whose layers do not match the world sensors and actions is rejected', () => {
+  assert.throws(parseEdited((network, world) => { world.visionSize = 7; }), /network\.neurons\.input is missing/);
+  assert.throws(parseEdited(network => { network.neurons.input[0].id = 'vision_9_9'; }),
+    /network\.neurons\.input\[0\]\.id "vision_9_9"/);
+  assert.throws(parseEdited(network => { network.neurons.output.pop(); }), /network\.neurons\.output is missing/);
+});
+
+test('a file with the same connection twice is rejected', () => {
+  assert.throws(parseEdited(network => { network.connections.push({ ...network.connections[2] }); }),
+    new RegExp(`network\\.connections\\[${trainedSession().network.connections.length}\\] repeats`));
+});
+
+test('rule parameters outside the rule\'s range are rejected', () => {
+  assert.throws(parseEdited(network => { network.connections[0].potentiation = 5; }),
+    /network\.connections\[0\]\.potentiation must be between 0 and 2/);
+});
+
+test('weights against their neuron\'s sign are rejected under Dale\'s law', () => {
+  // Make the first connection's source inhibitory while its weight excites
+  const inhibitFirst = (network) => {
+    network.neurons.input.find(n => n.id === network.connections[0].from).sign = 'inhibitory';
+    network.connections[0].weight = 0.5;
+  };
+  assert.throws(parseEdited(inhibitFirst),
+    /network\.connections\[0\]\.weight must be between -1 and 0 under Dale's law/);
+  assert.doesNotThrow(parseEdited(network => {
+    inhibitFirst(network);
+    network.daleLaw = false;
+  }));
+});
@@ -0,0 +1,359 @@
+// Versioned JSON file format for sharing networks together with their world.
+//
+// Version 1:
+// {
+//   "format": "hebbian-network",
+//   "version": 1,
+//   "seed": 12345,                          // run seed (non-negative integer)
+//   "world": {                              // world settings, see snake-world.ts
+//     "environment"?: "snake",              // key in ENVIRONMENTS; other environments
+//                                           // have their own settings (see environments.ts)
+//     "gridSize": 20, "visionSize": 5, "rewardDensity": 5,
+//     "classicMode"?: false,
+//     "visionChannels"?: ["food"],
+//     "boundary"?: "wrap",                  // or "walls"
+//     "obstacles"?: [{ "x", "y" }]          // missing settings take their defaults
+//   },
+//   "network": {
+//     "defaultRule": "hebb",                // key in LEARNING_RULES
+//     "daleLaw"?: false,                    // enforce neuron signs on outgoing weights
+//     "outputMode"?: "linear",              // key in OUTPUT_MODES
+//     "outputTemperature"?: 0.2,            // softmax temperature (> 0)
+//     "policy"?: {                          // action policy, see action-policies.ts
+//       "type": "argmax",                   // key in ACTION_POLICIES
+//       ...policy parameters,               // e.g. "epsilon", "temperature"
+//       "annealing"?: { "schedule", "final", "moves" }
+//     },
+//     "neurons": {                          // any neuron may have "sign"?: "excitatory" | "inhibitory"
+//       "input":  [{ "id", "type": "input", "subtype", "channel"?, "x", "y" }],   // one per sensor
+//       "hidden": [{ "id", "type": "hidden", "x", "y", "threshold", "timeConstant", "activation" }],
+//       "output": [{ "id", "type": "output", "x", "y" }]                        // one per action
+//     },
+//     "connections": [{                     // at most one per from → to pair
+//       "from", "to", "weight",             // weight in [-1, 1], within the sign's range under daleLaw
+//       "learningRate", "decay",
+//       "rule"?,                            // overrides defaultRule
+//       ...rule parameters                  // e.g. "traceDecay", "modulationGain", in the rule's ranges
+//     }]
+//   }
+// }
+//
+// Live state (activities, eligibility traces, dopamine, generator state) is not
+// saved; a loaded network starts at rest and is reseeded from `seed`.
+
+import { activationFunctions } from './hebbian-network';
+import { LEARNING_RULES } from './learning-rules';
+import {
+  reseedNetwork,
+  createInputNeurons,
+  createOutputNeurons,
+  getWeightBounds,
+  NEURON_SIGNS,
+  OUTPUT_MODES,
+  DEFAULT_OUTPUT_TEMPERATURE
+} from './network-model';
+import { DEFAULT_WORLD_CONFIG, BOUNDARIES } from './snake-world';
+import { VISION_CHANNELS } from './vision-channels';
+import { ENVIRONMENTS, DEFAULT_ENVIRONMENT, withEnvironmentDefaults } from './environments';
+import { ACTION_POLICIES, ANNEAL_SCHEDULES } from './action-policies';
+
+export const NETWORK_FILE_FORMAT = 'hebbian-network';
+export const NETWORK_FILE_VERSION = 1;
+export const AUTOSAVE_KEY = 'hebbian-snake.autosave';
+
+const NEURON_GROUPS = ['input', 'hidden', 'output'];
+const NEURON_FIELDS = ['id', 'type', 'subtype', 'channel', 'sign', 'x', 'y', 'threshold', 'timeConstant', 'activation'];
+const TRANSIENT_CONNECTION_FIELDS = Object.values(LEARNING_RULES).flatMap(rule => rule.state);
+
+const pick = (object, keys) => Object.fromEntries(
+  keys.filter(key => object[key] !== undefined).map(key => [key, object[key]])
+);
+
+const omit = (object, keys) => Object.fromEntries(
+  Object.entries(object).filter(([key]) => !keys.includes(key))
+);
+
+export const serializeNetworkFile = ({ network, worldConfig, seed }) => JSON.stringify({
+  format: NETWORK_FILE_FORMAT,
+  version: NETWORK_FILE_VERSION,
+  seed,
+  world: worldConfig,
+  network: {
+    defaultRule: network.defaultRule,
+    daleLaw: !!network.daleLaw,
+    outputMode: network.outputMode || 'linear',
+    outputTemperature: network.outputTemperature || DEFAULT_OUTPUT_TEMPERATURE,
+    policy: network.policy,
+    neurons: Object.fromEntries(NEURON_GROUPS.map(group => [
+      group,
+      network.neurons[group].map(n => pick(n, NEURON_FIELDS))
+    ])),
+    connections: network.connections.map(c => omit(c, TRANSIENT_CONNECTION_FIELDS))
+  }
+}, null, 2);
+
+// Validation helpers: each throws with the JSON path of the offending value
+const fail = (path, message) => {
+  throw new Error(`Invalid network file: ${path} ${message}`);
+};
+
+const expectObject = (value, path) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) fail(path, 'must be an object');
+  return value;
+};
+
+const expectArray = (value, path) => {
+  if (!Array.isArray(value)) fail(path, 'must be an array');
+  return value;
+};
+
+const expectNumber = (value, path, min = -Infinity, max = Infinity) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'must be a number');
+  if (value < min || value > max) fail(path, `must be between ${min} and ${max} (got ${value})`);
+  return value;
+};
+
+const expectInteger = (value, path, min = 0) => {
+  expectNumber(value, path, min);
+  if (!Number.isInteger(value)) fail(path, `must be a whole number (got ${value})`);
+  return value;
+};
+
+const expectBoolean = (value, path) => {
+  if (typeof value !== 'boolean') fail(path, 'must be true or false');
+  return value;
+};
+
+const expectString = (value, path) => {
+  if (typeof value !== 'string' || value === '') fail(path, 'must be a non-empty string');
+  return value;
+};
+
+// Environments other than snake are checked against their declared params
+const validateEnvironmentWorld = (world, environment) => {
+  environment.params.forEach(param => {
+    const value = world[param.key];
+    if (value === undefined) return;
+    const path = `world.${param.key}`;
+    expectNumber(value, path, param.min, param.max);
+    if (Number.isInteger(param.step)) expectInteger(value, path, param.min);
+  });
+  return withEnvironmentDefaults(world);
+};
+
+const validateWorld = (world) => {
+  expectObject(world, 'world');
+  const key = world.environment === undefined ? DEFAULT_ENVIRONMENT : world.environment;
+  if (!(key in ENVIRONMENTS)) {
+    fail('world.environment', `must be one of ${Object.keys(ENVIRONMENTS).join(', ')} (got ${JSON.stringify(key)})`);
+  }
+  if (key !== DEFAULT_ENVIRONMENT) return validateEnvironmentWorld(world, ENVIRONMENTS[key]);
+
+  expectInteger(world.gridSize, 'world.gridSize', 1);
+  expectInteger(world.visionSize, 'world.visionSize', 1);
+  expectInteger(world.rewardDensity, 'world.rewardDensity', 0);
+  if (world.classicMode !== undefined) expectBoolean(world.classicMode, 'world.classicMode');
+  if (world.visionChannels !== undefined) {
+    expectArray(world.visionChannels, 'world.visionChannels').forEach((key, i) => {
+      if (!(key in VISION_CHANNELS)) {
+        fail(`world.visionChannels[${i}]`, `must be one of ${Object.keys(VISION_CHANNELS).join(', ')} (got ${JSON.stringify(key)})`);
+      }
+    });
+  }
+  if (world.boundary !== undefined && !(world.boundary in BOUNDARIES)) {
+    fail('world.boundary', `must be one of ${Object.keys(BOUNDARIES).join(', ')} (got ${JSON.stringify(world.boundary)})`);
+  }
+  if (world.obstacles !== undefined) {
+    expectArray(world.obstacles, 'world.obstacles').forEach((cell, i) => {
+      expectObject(cell, `world.obstacles[${i}]`);
+      expectInteger(cell.x, `world.obstacles[${i}].x`);
+      expectInteger(cell.y, `world.obstacles[${i}].y`);
+      if (cell.x >= world.gridSize || cell.y >= world.gridSize) {
+        fail(`world.obstacles[${i}]`, `lies outside the ${world.gridSize}×${world.gridSize} grid`);
+      }
+    });
+  }
+  return { ...DEFAULT_WORLD_CONFIG, ...world };
+};
+
+const validateNeuron = (neuron, group, path, ids) => {
+  expectObject(neuron, path);
+  const id = expectString(neuron.id, `${path}.id`);
+  if (ids.has(id)) fail(`${path}.id`, `"${id}" is used by more than one neuron`);
+  ids.add(id);
+
+  if (neuron.type !== group) fail(`${path}.type`, `must be "${group}" (got ${JSON.stringify(neuron.type)})`);
+  expectNumber(neuron.x, `${path}.x`);
+  expectNumber(neuron.y, `${path}.y`);
+  if (neuron.sign !== undefined && !(neuron.sign in NEURON_SIGNS)) {
+    fail(`${path}.sign`, `must be one of ${Object.keys(NEURON_SIGNS).join(', ')} (got ${JSON.stringify(neuron.sign)})`);
+  }
+
+  if (group === 'hidden') {
+    expectNumber(neuron.threshold, `${path}.threshold`);
+    expectNumber(neuron.timeConstant, `${path}.timeConstant`, Number.MIN_VALUE);
+    if (!(neuron.activation in activationFunctions)) {
+      fail(`${path}.activation`, `must be one of ${Object.keys(activationFunctions).join(', ')}`);
+    }
+  }
+  return { ...neuron, activity: 0 };
+};
+
+const validateRule = (rule, path) => {
+  if (!(rule in LEARNING_RULES)) {
+    fail(path, `must be one of ${Object.keys(LEARNING_RULES).join(', ')} (got ${JSON.stringify(rule)})`);
+  }
+  return rule;
+};
+
+// The input and output layers must be the ones the world's sensors and
+// actions make (see createInputNeurons and createOutputNeurons)
+const validateLayer = (neurons, expected, path, what) => {
+  const expectedIds = new Set(expected.map(n => n.id));
+  neurons.forEach((n, i) => {
+    if (!expectedIds.has(n.id)) fail(`${path}[${i}].id`, `"${n.id}" is not one of the world's ${what}`);
+  });
+  const ids = new Set(neurons.map(n => n.id));
+  const missing = expected.find(n => !ids.has(n.id));
+  if (missing) fail(path, `is missing "${missing.id}" for the world's ${what}`);
+};
+
+// `neurons` maps ids to neurons; `seen` holds the from→to pairs of the
+// connections before this one
+const validateConnection = (conn, path, network, neurons, seen) => {
+  expectObject(conn, path);
+  ['from', 'to'].forEach(end => {
+    const id = expectString(conn[end], `${path}.${end}`);
+    if (!neurons.has(id)) fail(`${path}.${end}`, `"${id}" does not match any neuron`);
+  });
+  const pair = `${conn.from}→${conn.to}`;
+  if (seen.has(pair)) fail(path, `repeats an earlier connection from ${conn.from} to ${conn.to}`);
+  seen.add(pair);
+
+  expectNumber(conn.weight, `${path}.weight`, -1, 1);
+  const from = neurons.get(conn.from);
+  const [low, high] = getWeightBounds(network, conn, from);
+  if (conn.weight < low || conn.weight > high) {
+    fail(`${path}.weight`, `must be between ${low} and ${high} under Dale's law as ${conn.from} is ${from.sign} (got ${conn.weight})`);
+  }
+  expectNumber(conn.learningRate, `${path}.learningRate`);
+  expectNumber(conn.decay, `${path}.decay`, 0, 1);
+
+  const rule = conn.rule === undefined ? network.defaultRule : validateRule(conn.rule, `${path}.rule`);
+  LEARNING_RULES[rule].params.forEach(param => {
+    if (conn[param.key] !== undefined) expectNumber(conn[param.key], `${path}.${param.key}`, param.min, param.max);
+  });
+  return conn;
+};
+
+const validatePolicy = (policy) => {
+  expectObject(policy, 'network.policy');
+  const definition = ACTION_POLICIES[policy.type];
+  if (!definition) {
+    fail('network.policy.type', `must be one of ${Object.keys(ACTION_POLICIES).join(', ')} (got ${JSON.stringify(policy.type)})`);
+  }
+  definition.params.forEach(param => {
+    if (policy[param.key] !== undefined) {
+      expectNumber(policy[param.key], `network.policy.${param.key}`, param.min, param.max);
+    }
+  });
+  if (policy.annealing !== undefined) {
+    const { schedule, final, moves } = expectObject(policy.annealing, 'network.policy.annealing');
+    if (!(schedule in ANNEAL_SCHEDULES)) {
+      fail('network.policy.annealing.schedule', `must be one of ${Object.keys(ANNEAL_SCHEDULES).join(', ')} (got ${JSON.stringify(schedule)})`);
+    }
+    expectNumber(final, 'network.policy.annealing.final');
+    expectInteger(moves, 'network.policy.annealing.moves');
+  }
+  return policy;
+};
+
+// The network is checked against the already validated world config
+const validateNetwork = (network, worldConfig) => {
+  expectObject(network, 'network');
+  const neurons = expectObject(network.neurons, 'network.neurons');
+  const ids = new Set();
+
+  const groups = Object.fromEntries(NEURON_GROUPS.map(group => [
+    group,
+    expectArray(neurons[group], `network.neurons.${group}`)
+      .map((n, i) => validateNeuron(n, group, `network.neurons.${group}[${i}]`, ids))
+  ]));
+  validateLayer(groups.input, createInputNeurons(worldConfig), 'network.neurons.input', 'sensor neurons');
+  validateLayer(groups.output, createOutputNeurons(worldConfig), 'network.neurons.output', 'actions');
+
+  const defaultRule = validateRule(network.defaultRule, 'network.defaultRule');
+  if (network.daleLaw !== undefined) expectBoolean(network.daleLaw, 'network.daleLaw');
+  const byId = new Map(NEURON_GROUPS.flatMap(group => groups[group].map(n => [n.id, n])));
+  const seen = new Set();
+  const connections = expectArray(network.connections, 'network.connections')
+    .map((c, i) => validateConnection(c, `network.connections[${i}]`, { defaultRule, daleLaw: network.daleLaw }, byId, seen));
+
+  if (network.outputMode !== undefined && !(network.outputMode in OUTPUT_MODES)) {
+    fail('network.outputMode', `must be one of ${Object.keys(OUTPUT_MODES).join(', ')} (got ${JSON.stringify(network.outputMode)})`);
+  }
+  if (network.outputTemperature !== undefined) {
+    expectNumber(network.outputTemperature, 'network.outputTemperature', Number.MIN_VALUE);
+  }
+
+  return {
+    neurons: groups,
+    connections,
+    defaultRule,
+    daleLaw: network.daleLaw || false,
+    outputMode: network.outputMode || 'linear',
+    outputTemperature: network.outputTemperature || DEFAULT_OUTPUT_TEMPERATURE,
+    ...(network.policy !== undefined && { policy: validatePolicy(network.policy) }),
+    dopamine: 0
+  };
+};
+
+// Parse and validate a network file; returns { network, worldConfig, seed }
+export const parseNetworkFile = (text) => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid network file: not valid JSON (${error.message})`);
+  }
+
+  expectObject(data, 'file');
+  if (data.format !== NETWORK_FILE_FORMAT) {
+    fail('format', `must be "${NETWORK_FILE_FORMAT}" (got ${JSON.stringify(data.format)})`);
+  }
+  if (data.version !== NETWORK_FILE_VERSION) {
+    fail('version', `${JSON.stringify(data.version)} is not supported (expected ${NETWORK_FILE_VERSION})`);
+  }
+
+  const seed = expectInteger(data.seed, 'seed');
+  const worldConfig = validateWorld(data.world);
+  return {
+    seed,
+    worldConfig,
+    network: reseedNetwork(validateNetwork(data.network, worldConfig), seed)
+  };
+};
+
+// Autosave to localStorage. Failures (quota, private mode, corrupt data) are
+// non-fatal and returned as a message for the page to show.
+
+// Returns null, or why the session couldn't be saved
+export const saveAutosave = (session) => {
+  try {
+    window.localStorage.setItem(AUTOSAVE_KEY, serializeNetworkFile(session));
+    return null;
+  } catch (error) {
+    return `Autosave failed: ${error.message}`;
+  }
+};
+
+// Returns { session, error }: the autosaved session or null, and why it was
+// ignored or null
+export const loadAutosave = () => {
+  try {
+    const text = window.localStorage.getItem(AUTOSAVE_KEY);
+    return { session: text ? parseNetworkFile(text) : null, error: null };
+  } catch (error) {
+    return { session: null, error: `Ignoring autosaved network: ${error.message}` };
+  }
+};
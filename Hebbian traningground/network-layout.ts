@@ -0,0 +1,93 @@
+// Automatic layered layout for the editor. Inputs keep their positions (their
+// grids mirror the snake's field of view); hidden neurons are placed in
+// columns by their distance from the inputs, and the outputs move to the
+// right of the last column. Within a column neurons are ordered by the mean
+// height of the neurons feeding them, which keeps most connections from
+// crossing.
+
+import { VISION_NEURON_SPACING } from './network-model';
+
+export const LAYER_SPACING = 120;
+const MIN_ROW_SPACING = VISION_NEURON_SPACING;
+
+// Breadth-first distance from the input layer; neurons no path reaches
+// (e.g. only fed by other unreached hidden neurons) go in the first column
+const hiddenDepths = (network) => {
+  const depth = new Map(network.neurons.input.map(n => [n.id, 0]));
+  const hiddenIds = new Set(network.neurons.hidden.map(n => n.id));
+  const outgoing = new Map();
+  network.connections.forEach(c => {
+    if (!outgoing.has(c.from)) outgoing.set(c.from, []);
+    outgoing.get(c.from).push(c.to);
+  });
+
+  let frontier = network.neurons.input.map(n => n.id);
+  while (frontier.length > 0) {
+    const next = [];
+    frontier.forEach(id => (outgoing.get(id) || []).forEach(to => {
+      if (hiddenIds.has(to) && !depth.has(to)) {
+        depth.set(to, depth.get(id) + 1);
+        next.push(to);
+      }
+    }));
+    frontier = next;
+  }
+
+  return new Map(network.neurons.hidden.map(n => [n.id, depth.get(n.id) || 1]));
+};
+
+// New { x, y } for every hidden and output neuron, keyed by id
+export const layeredLayout = (network) => {
+  const { input, hidden, output } = network.neurons;
+  const positions = {};
+  if (input.length === 0) return positions;
+
+  const top = Math.min(...input.map(n => n.y));
+  const bottom = Math.max(...input.map(n => n.y));
+  const inputRight = Math.max(...input.map(n => n.x));
+  const y = new Map(input.map(n => [n.id, n.y]));
+
+  const incoming = new Map();
+  network.connections.forEach(c => {
+    if (!incoming.has(c.to)) incoming.set(c.to, []);
+    incoming.get(c.to).push(c.from);
+  });
+  // Mean height of already placed neurons feeding this one
+  const barycentre = (neuron) => {
+    const sources = (incoming.get(neuron.id) || []).filter(id => y.has(id));
+    return sources.length ? sources.reduce((sum, id) => sum + y.get(id), 0) / sources.length : neuron.y;
+  };
+
+  const depths = hiddenDepths(network);
+  const layerCount = Math.max(0, ...depths.values());
+
+  for (let layer = 1; layer <= layerCount; layer++) {
+    const column = hidden
+      .filter(n => depths.get(n.id) === layer)
+      .map(n => ({ neuron: n, order: barycentre(n) }))
+      .sort((a, b) => a.order - b.order);
+    if (column.length === 0) continue;
+
+    const spacing = Math.max(MIN_ROW_SPACING, column.length > 1 ? (bottom - top) / (column.length - 1) : 0);
+    const height = spacing * (column.length - 1);
+    const start = (top + bottom) / 2 - height / 2;
+    column.forEach(({ neuron }, i) => {
+      positions[neuron.id] = { x: inputRight + layer * LAYER_SPACING, y: start + i * spacing };
+      y.set(neuron.id, positions[neuron.id].y);
+    });
+  }
+
+  // Outputs keep their arrangement, shifted to follow the last column
+  if (output.length > 0) {
+    const outputLeft = Math.min(...output.map(n => n.x));
+    const shift = inputRight + (layerCount + 1) * LAYER_SPACING - outputLeft;
+    const outputTop = Math.min(...output.map(n => n.y));
+    const outputBottom = Math.max(...output.map(n => n.y));
+    const centre = (top + bottom) / 2 - (outputTop + outputBottom) / 2;
+    output.forEach(n => {
+      positions[n.id] = { x: n.x + shift, y: n.y + centre };
+    });
+  }
+
+  return positions;
+};
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDefaultNetwork, createHiddenNeuron, createConnection, syncEnvironmentNeurons } from './network-model';
+import { getConnectionRule } from './learning-rules';
+import { DEFAULT_WORLD_CONFIG } from './snake-world';
+
+// A 5×5 food vision network with the centre (head) cell and the top-left
+// corner wired to one hidden neuron
+const wiredNetwork = () => {
+  const network = createDefaultNetwork(1, DEFAULT_WORLD_CONFIG);
+  return {
+    ...network,
+    neurons: { ...network.neurons, hidden: [createHiddenNeuron('hidden_a', 300, 200)] },
+    connections: [
+      createConnection('vision_2_2', 'hidden_a', 0.7),
+      createConnection('vision_0_0', 'hidden_a', 0.3),
+      createConnection('hidden_a', 'up', 0.4)
+    ]
+  };
+};
+
+const withVision = (visionSize) => ({ ...DEFAULT_WORLD_CONFIG, visionSize });
+
+test('a connection from the centre cell stays on the centre cell when the vision window grows', () => {
+  const grown = syncEnvironmentNeurons(wiredNetwork(), withVision(7));
+  assert.deepEqual(grown.connections.map(c => [c.from, c.to, c.weight]), [
+    ['vision_3_3', 'hidden_a', 0.7],
+    ['vision_1_1', 'hidden_a', 0.3],
+    ['hidden_a', 'up', 0.4]
+  ]);
+  assert.equal(grown.neurons.input.filter(n => n.channel === 'food').length, 49);
+});
+
+test('shrinking the vision window keeps the centre and drops cells outside it', () => {
+  const shrunk = syncEnvironmentNeurons(wiredNetwork(), withVision(3));
+  assert.deepEqual(shrunk.connections.map(c => [c.from, c.to]), [
+    ['vision_1_1', 'hidden_a'],
+    ['hidden_a', 'up']
+  ]);
+});
+
+test('growing and shrinking back restores the original connections', () => {
+  const network = wiredNetwork();
+  const restored = syncEnvironmentNeurons(syncEnvironmentNeurons(network, withVision(9)), withVision(5));
+  assert.deepEqual(restored.connections, network.connections);
+});
+
+test('an unchanged vision window leaves connections alone', () => {
+  const network = wiredNetwork();
+  assert.deepEqual(syncEnvironmentNeurons(network, withVision(5)).connections, network.connections);
+});
+
+test('a new network learns with the plain Hebbian rule until reward modulation is picked', () => {
+  const network = wiredNetwork();
+  assert.equal(getConnectionRule(network, network.connections[0]), 'hebb');
+  const modulated = { ...network, defaultRule: 'modulated' };
+  assert.equal(getConnectionRule(modulated, modulated.connections[0]), 'modulated');
+});
@@ -0,0 +1,293 @@
+// Shared network model used by both the editor (layout, topology, parameters)
+// and the learning loop (activities, weights).
+// Ids and initial weights are drawn from the network's seeded generator (`rngState`).
+
+import { createRng, deriveSeed } from './random';
+import { DEFAULT_RULE } from './learning-rules';
+import { DEFAULT_WORLD_CONFIG } from './snake-world';
+import { getEnvironment, getChannelIds } from './environments';
+
+export const VISION_NEURON_SPACING = 40;
+export const VISION_START_X = 100;
+export const VISION_START_Y = 100;
+export const CHANNEL_GAP = 30; // vertical space between stacked channel grids
+export const OUTPUT_START_X = 500;
+export const OUTPUT_SPACING = 50;
+export const OUTPUT_DIRECTIONS = ['up', 'down', 'left', 'right'];
+
+export const DEFAULT_WEIGHT = 0.5;
+export const DEFAULT_WEIGHT_JITTER = 0.1;
+const NETWORK_SEED_SALT = 1;
+
+// Rule-specific parameters are optional; see learning-rules.ts for their defaults
+export const DEFAULT_CONNECTION_PARAMS = {
+  learningRate: 0.1,
+  decay: 0.01
+};
+
+// Dale's law: when the network enforces it, every outgoing weight of an
+// excitatory neuron stays >= 0 and of an inhibitory one <= 0. Neurons without
+// a sign may have mixed weights.
+export const NEURON_SIGNS = {
+  excitatory: 'Excitatory',
+  inhibitory: 'Inhibitory'
+};
+
+// How the output group turns summed input into activity. Softmax outputs sum
+// to 1; the proportional action policy samples moves from them directly.
+export const OUTPUT_MODES = {
+  linear: 'Linear (clamped sum)',
+  wta: 'Winner-take-all',
+  softmax: 'Softmax'
+};
+export const DEFAULT_OUTPUT_TEMPERATURE = 0.2;
+
+export const DEFAULT_NEURON_PARAMS = {
+  threshold: 0.5,
+  timeConstant: 1.0,
+  activity: 0,
+  activation: 'sigmoid' // or 'relu' or 'threshold'
+};
+
+// Input layer for the environment's sensors: grid channels are stacked top
+// to bottom, list channels form a row below them, and the reward neuron sits
+// under everything
+export const createInputNeurons = (worldConfig = DEFAULT_WORLD_CONFIG) => {
+  const { visionSize } = worldConfig;
+  const environment = getEnvironment(worldConfig);
+  const neurons = [];
+  let top = VISION_START_Y;
+  let bottom = VISION_START_Y;
+  let right = VISION_START_X + VISION_NEURON_SPACING;
+
+  environment.sensors(worldConfig).forEach(key => {
+    const channel = environment.channels[key];
+    const base = { type: 'input', subtype: 'vision', channel: key, activity: 0 };
+
+    if (channel.kind === 'grid') {
+      for (let y = 0; y < visionSize; y++) {
+        for (let x = 0; x < visionSize; x++) {
+          neurons.push({
+            ...base,
+            id: channel.neuronId(x, y),
+            x: VISION_START_X + x * VISION_NEURON_SPACING,
+            y: top + y * VISION_NEURON_SPACING
+          });
+        }
+      }
+      bottom = top + visionSize * VISION_NEURON_SPACING;
+      right = Math.max(right, VISION_START_X + visionSize * VISION_NEURON_SPACING);
+    } else {
+      const ids = getChannelIds(channel, worldConfig);
+      ids.forEach((id, i) => {
+        neurons.push({ ...base, id, x: VISION_START_X + i * VISION_NEURON_SPACING, y: top });
+      });
+      bottom = top + VISION_NEURON_SPACING;
+      right = Math.max(right, VISION_START_X + ids.length * VISION_NEURON_SPACING);
+    }
+    top = bottom + CHANNEL_GAP;
+  });
+
+  neurons.push({
+    id: 'reward',
+    x: (VISION_START_X + right) / 2,
+    y: bottom + 50,
+    type: 'input',
+    subtype: 'reward',
+    activity: 0
+  });
+
+  return neurons;
+};
+
+// One output per environment action. The four moves form a cross on the right
+// side, level with the first grid; other action sets form a column there.
+export const createOutputNeurons = (worldConfig = DEFAULT_WORLD_CONFIG) => {
+  const actions = getEnvironment(worldConfig).actions(worldConfig);
+  const centreY = VISION_START_Y + ((worldConfig.visionSize || 1) * VISION_NEURON_SPACING) / 2;
+  const cross = {
+    up: { x: OUTPUT_START_X, y: centreY - OUTPUT_SPACING },
+    down: { x: OUTPUT_START_X, y: centreY + OUTPUT_SPACING },
+    left: { x: OUTPUT_START_X - OUTPUT_SPACING, y: centreY },
+    right: { x: OUTPUT_START_X + OUTPUT_SPACING, y: centreY }
+  };
+  const isCross = actions.length === OUTPUT_DIRECTIONS.length && actions.every(a => OUTPUT_DIRECTIONS.includes(a));
+  const top = centreY - (actions.length - 1) * OUTPUT_SPACING / 2;
+
+  return actions.map((id, i) => ({
+    id,
+    ...(isCross ? cross[id] : { x: OUTPUT_START_X, y: top + i * OUTPUT_SPACING }),
+    type: 'output',
+    activity: 0
+  }));
+};
+
+// New ids for the grid inputs of a vision window that changed size. A cell
+// keeps its offset from the centre (the head), so a connection from the cell
+// ahead of the head still comes from that cell; cells outside the new window
+// map to null.
+const remapGridInputs = (network, worldConfig) => {
+  const environment = getEnvironment(worldConfig);
+  const { visionSize } = worldConfig;
+  const remap = new Map();
+
+  environment.sensors(worldConfig).forEach(key => {
+    const channel = environment.channels[key];
+    if (channel.kind !== 'grid') return;
+    const previousSize = Math.round(Math.sqrt(network.neurons.input.filter(n => n.channel === key).length));
+    if (previousSize === 0 || previousSize === visionSize) return;
+
+    const shift = Math.floor(visionSize / 2) - Math.floor(previousSize / 2);
+    for (let y = 0; y < previousSize; y++) {
+      for (let x = 0; x < previousSize; x++) {
+        const inside = x + shift >= 0 && x + shift < visionSize && y + shift >= 0 && y + shift < visionSize;
+        remap.set(channel.neuronId(x, y), inside ? channel.neuronId(x + shift, y + shift) : null);
+      }
+    }
+  });
+  return remap;
+};
+
+// Regenerate the input and output layers after the environment or its sensors
+// changed. Inputs keep their activities; the outputs are only laid out anew
+// when the action set changed. Connections of grid inputs follow their cells
+// when the vision window changes size (see remapGridInputs); connections to
+// neurons that no longer exist are dropped.
+export const syncEnvironmentNeurons = (network, worldConfig) => {
+  const remap = remapGridInputs(network, worldConfig);
+  const follow = (id) => remap.has(id) ? remap.get(id) : id;
+  const previous = new Map(network.neurons.input.map(n => [follow(n.id), n]));
+  const input = createInputNeurons(worldConfig).map(n =>
+    previous.has(n.id) ? { ...n, activity: previous.get(n.id).activity } : n
+  );
+  const actions = getEnvironment(worldConfig).actions(worldConfig);
+  const sameActions = actions.length === network.neurons.output.length
+    && network.neurons.output.every((n, i) => n.id === actions[i]);
+  const output = sameActions ? network.neurons.output : createOutputNeurons(worldConfig);
+  const ids = new Set([...input, ...network.neurons.hidden, ...output].map(n => n.id));
+
+  const connections = network.connections
+    .map(c => remap.has(c.from) || remap.has(c.to) ? { ...c, from: follow(c.from), to: follow(c.to) } : c)
+    .filter(c => ids.has(c.from) && ids.has(c.to));
+
+  return {
+    ...network,
+    neurons: { input, hidden: network.neurons.hidden, output },
+    connections
+  };
+};
+
+// Build the default network: the environment's input and output layers
+export const createDefaultNetwork = (seed = 0, worldConfig = DEFAULT_WORLD_CONFIG) => ({
+  neurons: {
+    input: createInputNeurons(worldConfig),
+    hidden: [],
+    output: createOutputNeurons(worldConfig)
+  },
+  connections: [],
+  defaultRule: DEFAULT_RULE,
+  daleLaw: false,
+  outputMode: 'linear',
+  outputTemperature: DEFAULT_OUTPUT_TEMPERATURE,
+  dopamine: 0,
+  rngState: deriveSeed(seed, NETWORK_SEED_SALT)
+});
+
+// Restart the network's generator from a run seed, keeping topology and weights
+export const reseedNetwork = (network, seed) => ({
+  ...network,
+  rngState: deriveSeed(seed, NETWORK_SEED_SALT)
+});
+
+export const getAllNeurons = (network) => [
+  ...network.neurons.input,
+  ...network.neurons.hidden,
+  ...network.neurons.output
+];
+
+export const findNeuron = (network, id) =>
+  getAllNeurons(network).find(n => n.id === id);
+
+export const isSameConnection = (a, b) =>
+  !!a && !!b && a.from === b.from && a.to === b.to;
+
+// Range a connection's weight may take; only narrower than [-1, 1] under Dale's law
+export const getWeightBounds = (network, conn, from = findNeuron(network, conn.from)) => {
+  if (!network.daleLaw || !from?.sign) return [-1, 1];
+  return from.sign === 'inhibitory' ? [-1, 0] : [0, 1];
+};
+
+export const clampWeight = (network, conn, weight) => {
+  const [low, high] = getWeightBounds(network, conn);
+  return Math.max(low, Math.min(high, weight));
+};
+
+// Pull every weight into its Dale's-law range, e.g. after a neuron's sign changed
+export const enforceDaleLaw = (network) => ({
+  ...network,
+  connections: network.connections.map(c => {
+    const weight = clampWeight(network, c, c.weight);
+    return weight === c.weight ? c : { ...c, weight };
+  })
+});
+
+export const createHiddenNeuron = (id, x, y) => ({
+  ...DEFAULT_NEURON_PARAMS,
+  id,
+  x,
+  y,
+  type: 'hidden'
+});
+
+export const createConnection = (from, to, weight = DEFAULT_WEIGHT) => ({
+  ...DEFAULT_CONNECTION_PARAMS,
+  from,
+  to,
+  weight
+});
+
+const randomWeight = (rng) =>
+  DEFAULT_WEIGHT + rng.range(-DEFAULT_WEIGHT_JITTER, DEFAULT_WEIGHT_JITTER);
+
+export const randomNeuronId = (network, rng) => {
+  const existing = new Set(getAllNeurons(network).map(n => n.id));
+  let id;
+  do {
+    id = `hidden_${rng.int(0x1000000).toString(16).padStart(6, '0')}`;
+  } while (existing.has(id));
+  return id;
+};
+
+// Connect every input to a new hidden neuron and the hidden neuron to every output
+export const createDefaultConnections = (network, hiddenNeuronId, rng) => [
+  ...network.neurons.input.map(inputNeuron =>
+    createConnection(inputNeuron.id, hiddenNeuronId, randomWeight(rng))),
+  ...network.neurons.output.map(outputNeuron =>
+    createConnection(hiddenNeuronId, outputNeuron.id, randomWeight(rng)))
+];
+
+// Add a fully connected hidden neuron at (x, y)
+export const addHiddenNeuron = (network, x, y) => {
+  const rng = createRng(network.rngState);
+  const neuron = createHiddenNeuron(randomNeuronId(network, rng), x, y);
+  const connections = createDefaultConnections(network, neuron.id, rng);
+
+  return {
+    ...network,
+    neurons: {
+      ...network.neurons,
+      hidden: [...network.neurons.hidden, neuron]
+    },
+    connections: [...network.connections, ...connections],
+    rngState: rng.getState()
+  };
+};
+
+export const addConnection = (network, from, to) => {
+  const rng = createRng(network.rngState);
+  return {
+    ...network,
+    connections: [...network.connections, createConnection(from, to, randomWeight(rng))],
+    rngState: rng.getState()
+  };
+};
@@ -0,0 +1,91 @@
+// Network edits as plain data. The page applies a patch to its copy of the
+// network and sends it to the simulation worker (see simulation-worker.ts),
+// which applies it to the live network: a patch changes only what it names,
+// so weights and activities learned since the page's last snapshot are kept.
+//
+// A patch is { type, ...fields } with the fields its entry below takes.
+
+import { advanceRng } from './random';
+import { enforceDaleLaw, clampWeight, isSameConnection, syncEnvironmentNeurons, reseedNetwork } from './network-model';
+
+const linkKey = (conn) => `${conn.from}->${conn.to}`;
+
+// Only hidden neurons are added or removed; inputs and outputs are fixed
+export const withElements = (network, neurons, connections) => ({
+  ...network,
+  neurons: { ...network.neurons, hidden: [...network.neurons.hidden, ...neurons] },
+  connections: [...network.connections, ...connections]
+});
+
+// Remove hidden neurons, every connection touching them and the given connections
+export const withoutElements = (network, neuronIds, connections) => {
+  const ids = new Set(neuronIds);
+  const links = new Set(connections.map(linkKey));
+  return {
+    ...network,
+    neurons: { ...network.neurons, hidden: network.neurons.hidden.filter(n => !ids.has(n.id)) },
+    connections: network.connections.filter(c => !ids.has(c.from) && !ids.has(c.to) && !links.has(linkKey(c)))
+  };
+};
+
+const mapNeurons = (network, update) => ({
+  ...network,
+  neurons: Object.fromEntries(Object.entries(network.neurons).map(([group, list]) => [group, list.map(update)]))
+});
+
+export const NETWORK_PATCHES = {
+  // positions maps neuron ids to { x, y }
+  setNeuronPositions: (network, { positions }) =>
+    mapNeurons(network, n => positions[n.id] ? { ...n, ...positions[n.id] } : n),
+
+  // A new sign may put existing weights outside their Dale's-law range
+  setNeuronParams: (network, { ids, params }) => {
+    const changed = new Set(ids);
+    const next = mapNeurons(network, n => changed.has(n.id) ? { ...n, ...params } : n);
+    return 'sign' in params ? enforceDaleLaw(next) : next;
+  },
+
+  // connections are { from, to } keys
+  setConnectionParams: (network, { connections, params }) => ({
+    ...network,
+    connections: network.connections.map(c =>
+      connections.some(key => isSameConnection(c, key)) ? { ...c, ...params } : c
+    )
+  }),
+
+  // Nudge a weight from its live value, within its allowed range
+  adjustWeight: (network, { connection, delta }) => ({
+    ...network,
+    connections: network.connections.map(c =>
+      isSameConnection(c, connection) ? { ...c, weight: clampWeight(network, c, c.weight + delta) } : c
+    )
+  }),
+
+  // Network-wide settings: defaultRule, daleLaw, outputMode, outputTemperature, policy
+  setNetworkParams: (network, { params }) => {
+    const next = { ...network, ...params };
+    return 'daleLaw' in params ? enforceDaleLaw(next) : next;
+  },
+
+  // draws is how many values the elements' ids and weights took from the
+  // network's generator, which moves on by as many
+  addElements: (network, { neurons, connections, draws = 0 }) => ({
+    ...withElements(network, neurons, connections),
+    rngState: advanceRng(network.rngState, draws)
+  }),
+
+  removeElements: (network, { neuronIds, connections }) => withoutElements(network, neuronIds, connections),
+
+  syncEnvironment: (network, { worldConfig }) => syncEnvironmentNeurons(network, worldConfig),
+
+  reseed: (network, { seed }) => reseedNetwork(network, seed),
+
+  // Several patches applied in order
+  batch: (network, { patches }) => patches.reduce(applyNetworkPatch, network)
+};
+
+export const applyNetworkPatch = (network, patch) => {
+  const apply = NETWORK_PATCHES[patch.type];
+  if (!apply) throw new Error(`Unknown network patch "${patch.type}"`);
+  return apply(network, patch);
+};
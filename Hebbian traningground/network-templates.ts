@@ -0,0 +1,186 @@
+// Generators for common starting architectures. Each template takes a network
+// and its parameter values and returns the network with neurons and
+// connections added; weights and ids come from the network's seeded generator,
+// so a template gives the same result for the same seed. `params` describe
+// the template's settings for the editor: numeric ones get a slider, ones with
+// `options` a select.
+
+import { createRng } from './random';
+import {
+  OUTPUT_DIRECTIONS,
+  VISION_START_Y,
+  createHiddenNeuron,
+  createConnection,
+  randomNeuronId,
+  getAllNeurons
+} from './network-model';
+import { SENSOR_CHANNELS } from './environments';
+import { getGridChannels } from './receptive-field';
+
+export const WEIGHT_DISTRIBUTIONS = {
+  constant: { name: 'Constant', sample: (rng, scale) => scale },
+  uniform: { name: 'Uniform (-s, s)', sample: (rng, scale) => rng.range(-scale, scale) },
+  positive: { name: 'Uniform (0, s)', sample: (rng, scale) => rng.range(0, scale) },
+  // Box-Muller with standard deviation s
+  gaussian: {
+    name: 'Gaussian (0, s)',
+    sample: (rng, scale) => scale * Math.sqrt(-2 * Math.log(1 - rng.next())) * Math.cos(2 * Math.PI * rng.next())
+  }
+};
+
+const sampleWeight = (rng, params) =>
+  Math.max(-1, Math.min(1, WEIGHT_DISTRIBUTIONS[params.distribution].sample(rng, params.scale)));
+
+const layerSizeParam = { key: 'size', label: 'Hidden Neurons', min: 1, max: 16, step: 1, default: 8 };
+const distributionParam = { key: 'distribution', label: 'Weight Distribution', options: WEIGHT_DISTRIBUTIONS, default: 'uniform' };
+const scaleParam = { key: 'scale', label: 'Weight Scale', min: 0, max: 1, step: 0.05, default: 0.5 };
+
+// Remove all hidden neurons and connections, keeping inputs and outputs
+export const clearNetwork = (network) => ({
+  ...network,
+  neurons: { ...network.neurons, hidden: [] },
+  connections: []
+});
+
+// Positions for a column of hidden neurons between the inputs and the outputs
+const hiddenColumn = (network, count) => {
+  const left = Math.max(...network.neurons.input.map(n => n.x));
+  const right = Math.min(...network.neurons.output.map(n => n.x));
+  const bottom = Math.max(...network.neurons.input.map(n => n.y));
+  const spacing = count > 1 ? (bottom - VISION_START_Y) / (count - 1) : 0;
+  return Array.from({ length: count }, (_, i) => ({
+    x: (left + right) / 2,
+    y: count > 1 ? VISION_START_Y + i * spacing : (VISION_START_Y + bottom) / 2
+  }));
+};
+
+// Add connections, skipping pairs that are already connected
+const withConnections = (network, connections) => {
+  const existing = new Set(network.connections.map(c => `${c.from}->${c.to}`));
+  return {
+    ...network,
+    connections: [...network.connections, ...connections.filter(c => !existing.has(`${c.from}->${c.to}`))]
+  };
+};
+
+// A hidden layer where each possible input -> hidden and hidden -> output
+// connection exists with the given probability
+const randomLayer = (network, params, probability) => {
+  const rng = createRng(network.rngState);
+  let next = network;
+  const connections = [];
+
+  hiddenColumn(network, params.size).forEach(({ x, y }) => {
+    const neuron = createHiddenNeuron(randomNeuronId(next, rng), x, y);
+    next = { ...next, neurons: { ...next.neurons, hidden: [...next.neurons.hidden, neuron] } };
+    network.neurons.input.forEach(input => {
+      if (rng.next() < probability) connections.push(createConnection(input.id, neuron.id, sampleWeight(rng, params)));
+    });
+    network.neurons.output.forEach(output => {
+      if (rng.next() < probability) connections.push(createConnection(neuron.id, output.id, sampleWeight(rng, params)));
+    });
+  });
+
+  return { ...withConnections(next, connections), rngState: rng.getState() };
+};
+
+// Which direction's sector of the vision window a cell falls in, relative to
+// the centre; diagonals count for both neighbouring directions
+const cellDirections = (dx, dy) => OUTPUT_DIRECTIONS.filter(direction => ({
+  up: dy < 0 && Math.abs(dx) <= -dy,
+  down: dy > 0 && Math.abs(dx) <= dy,
+  left: dx < 0 && Math.abs(dy) <= -dx,
+  right: dx > 0 && Math.abs(dy) <= dx
+})[direction]);
+
+// One hidden unit per direction, seeing only its own sector of the vision
+// grid and driving the matching output. Needs a grid channel and movement
+// outputs, so it leaves e.g. the line-following network alone.
+const directionDetectors = (network, params) => {
+  const channels = getGridChannels(network);
+  const channelKey = channels.includes('food') ? 'food' : channels[0];
+  const directions = OUTPUT_DIRECTIONS.filter(d => network.neurons.output.some(n => n.id === d));
+  if (!channelKey || directions.length === 0) return network;
+
+  const channel = SENSOR_CHANNELS[channelKey];
+  const size = Math.round(Math.sqrt(network.neurons.input.filter(n => n.channel === channelKey).length));
+  const centre = Math.floor(size / 2);
+  const existing = new Set(getAllNeurons(network).map(n => n.id));
+  const positions = hiddenColumn(network, directions.length);
+
+  const detectors = directions
+    .map((direction, i) => createHiddenNeuron(`detector_${direction}`, positions[i].x, positions[i].y))
+    .filter(n => !existing.has(n.id));
+  const connections = [];
+
+  directions.forEach(direction => {
+    const id = `detector_${direction}`;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (cellDirections(x - centre, y - centre).includes(direction)) {
+          connections.push(createConnection(channel.neuronId(x, y), id, params.weight));
+        }
+      }
+    }
+    connections.push(createConnection(id, direction, params.weight));
+  });
+
+  return withConnections({
+    ...network,
+    neurons: { ...network.neurons, hidden: [...network.neurons.hidden, ...detectors] }
+  }, connections);
+};
+
+// Every output inhibits every other one
+const lateralInhibition = (network, params) => {
+  const outputs = network.neurons.output;
+  const connections = outputs.flatMap(from => outputs
+    .filter(to => to.id !== from.id)
+    .map(to => createConnection(from.id, to.id, -params.strength)));
+  return withConnections(network, connections);
+};
+
+export const NETWORK_TEMPLATES = {
+  directionDetectors: {
+    name: 'Direction detectors',
+    description: 'One hidden unit per direction, wired to its sector of the vision grid and the matching output.',
+    params: [{ key: 'weight', label: 'Weight', min: 0, max: 1, step: 0.05, default: 0.5 }],
+    apply: directionDetectors
+  },
+
+  fullyConnected: {
+    name: 'Fully connected layer',
+    description: 'A hidden layer connected to every input and every output.',
+    params: [layerSizeParam, distributionParam, scaleParam],
+    apply: (network, params) => randomLayer(network, params, 1)
+  },
+
+  sparse: {
+    name: 'Sparse random layer',
+    description: 'A hidden layer where each possible connection exists with the given probability.',
+    params: [
+      layerSizeParam,
+      { key: 'probability', label: 'Connection Probability', min: 0.05, max: 1, step: 0.05, default: 0.2 },
+      distributionParam,
+      scaleParam
+    ],
+    apply: (network, params) => randomLayer(network, params, params.probability)
+  },
+
+  lateralInhibition: {
+    name: 'Lateral inhibition',
+    description: 'Negative connections between every pair of outputs, so the strongest direction suppresses the rest.',
+    params: [{ key: 'strength', label: 'Inhibition Strength', min: 0, max: 1, step: 0.05, default: 0.5 }],
+    apply: lateralInhibition
+  }
+};
+
+export const getTemplateDefaults = (templateKey) =>
+  Object.fromEntries(NETWORK_TEMPLATES[templateKey].params.map(p => [p.key, p.default]));
+
+// Apply a template, optionally replacing the current hidden layer and connections
+export const applyTemplate = (network, templateKey, params, replace = false) =>
+  NETWORK_TEMPLATES[templateKey].apply(replace ? clearNetwork(network) : network, {
+    ...getTemplateDefaults(templateKey),
+    ...params
+  });
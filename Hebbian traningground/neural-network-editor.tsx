@@ -1,189 +1,257 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { Trash2 } from 'lucide-react';
+import {
+  Trash2,
+  MousePointer,
+  Move,
+  PlusCircle,
+  Link,
+  BoxSelect,
+  Undo2,
+  Redo2,
+  Copy,
+  ClipboardPaste,
+  Hand,
+  LayoutGrid,
+  Maximize
+} from 'lucide-react';
+import {
+  NEURON_SIGNS,
+  OUTPUT_MODES,
+  DEFAULT_OUTPUT_TEMPERATURE,
+  getAllNeurons,
+  isSameConnection
+} from './network-model';
+import { LEARNING_RULES, getRule, getConnectionRule, getRuleParam } from './learning-rules';
+import { SENSOR_CHANNELS } from './environments';
+import { getGridChannels, getReceptiveField } from './receptive-field';
+import ReceptiveFieldMap, { WeightScale } from './receptive-field-map';
+import TemplatePanel from './template-panel';
+import {
+  removeElementsCommand,
+  moveNeuronsCommand,
+  createEditHistory,
+  recordCommand,
+  copyNeurons,
+  PASTE_OFFSET
+} from './editor-commands';
+import { layeredLayout } from './network-layout';
+import { applyNetworkPatch } from './network-patches';
 
 const CANVAS_WIDTH = 600;
-const CANVAS_HEIGHT = 400;
+const CANVAS_HEIGHT = 450;
 const NEURON_RADIUS = 15;
-const VISION_GRID_SIZE = 5;
-const VISION_NEURON_SPACING = 40;
-const VISION_START_X = 100;
-const VISION_START_Y = 100;
-const DEFAULT_WEIGHT = 0.5;
-const DEFAULT_CONNECTION_PARAMS = {
-  learningRate: 0.1,
-  decay: 0.01
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.2;
+const FIT_MARGIN = 40; // px around the network when fitting it into view
+
+// Level-of-detail limits: past these, arrows, labels and activity values are
+// left out so large networks stay smooth
+const DETAIL_ZOOM = 0.6;
+const ARROW_LIMIT = 2000;     // connections
+const LABEL_LIMIT = 150;      // connections
+const WIDTH_LEVELS = 5;       // connections are batched by rounded line width
+const BIDIRECTIONAL_OFFSET = 6; // px between the two lines of a connection pair
+const ARROW_LENGTH = 10;
+const HIT_TOLERANCE = 5; // screen px around a connection line that still selects it
+
+const TOOLS = {
+  select: { name: 'Select', icon: MousePointer, cursor: 'cursor-default' },
+  move: { name: 'Move', icon: Move, cursor: 'cursor-move' },
+  add: { name: 'Add Neuron', icon: PlusCircle, cursor: 'cursor-crosshair' },
+  connect: { name: 'Connect', icon: Link, cursor: 'cursor-pointer' },
+  delete: { name: 'Delete', icon: Trash2, cursor: 'cursor-pointer' },
+  box: { name: 'Box Select', icon: BoxSelect, cursor: 'cursor-crosshair' },
+  pan: { name: 'Pan (or drag with the middle button)', icon: Hand, cursor: 'cursor-grab' }
 };
 
-const DEFAULT_NEURON_PARAMS = {
-  threshold: 0.5,
-  timeConstant: 1.0,
-  activity: 0,
-  activation: 'sigmoid' // or 'relu' or 'threshold'
+// Line from edge to edge of two neurons; a connection whose reverse also
+// exists is shifted sideways so both directions stay visible and clickable
+const connectionLine = (from, to, hasReverse) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  const shift = hasReverse ? BIDIRECTIONAL_OFFSET : 0;
+  const ox = -dy / length * shift;
+  const oy = dx / length * shift;
+  return {
+    startX: from.x + dx * (NEURON_RADIUS / length) + ox,
+    startY: from.y + dy * (NEURON_RADIUS / length) + oy,
+    endX: from.x + dx * (1 - NEURON_RADIUS / length) + ox,
+    endY: from.y + dy * (1 - NEURON_RADIUS / length) + oy
+  };
 };
 
-// Activation functions
-const activationFunctions = {
-  sigmoid: (x, threshold) => 1 / (1 + Math.exp(-(x - threshold))),
-  relu: (x, threshold) => Math.max(0, x - threshold),
-  threshold: (x, threshold) => x > threshold ? 1 : 0
+// Add an arrow head at the end of a connection line to a shared path
+const addArrow = (path, startX, startY, endX, endY) => {
+  const angle = Math.atan2(endY - startY, endX - startX);
+  path.moveTo(endX, endY);
+  path.lineTo(
+    endX - ARROW_LENGTH * Math.cos(angle - Math.PI / 6),
+    endY - ARROW_LENGTH * Math.sin(angle - Math.PI / 6)
+  );
+  path.lineTo(
+    endX - ARROW_LENGTH * Math.cos(angle + Math.PI / 6),
+    endY - ARROW_LENGTH * Math.sin(angle + Math.PI / 6)
+  );
+  path.closePath();
 };
 
-const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
-  // Network state
-  const [neurons, setNeurons] = useState({
-    input: [], // Vision neurons + reward neuron
-    hidden: [], // User-added hidden neurons
-    output: []  // Movement neurons
-  });
-  const [connections, setConnections] = useState([]);
-  const [selectedNeuron, setSelectedNeuron] = useState(null);
-  const [selectedConnection, setSelectedConnection] = useState(null);
-  const [learningRate, setLearningRate] = useState(0.1);
-  const [mode, setMode] = useState('add'); // 'add' or 'delete'
-  
-  const canvasRef = useRef(null);
-  const isDraggingRef = useRef(false);
+// Edits are network patches (see network-patches.ts) passed to patchNetwork,
+// or, for additions, drawing edits (see editor-commands.ts) passed to
+// editNetwork. A readOnly network, e.g. a replayed frame, can be looked at
+// but not edited.
+const NeuralNetworkEditor = ({
+  networkState: liveNetwork,
+  patchNetwork: applyPatch,
+  editNetwork,
+  readOnly,
+  isLearning
+}) => {
+  // Neurons being dragged are shown where they are dragged to, and only
+  // moved in the network once dropped
+  const [dragPositions, setDragPositions] = useState(null);
+  const networkState = useMemo(() => dragPositions
+    ? applyNetworkPatch(liveNetwork, { type: 'setNeuronPositions', positions: dragPositions })
+    : liveNetwork, [liveNetwork, dragPositions]);
+  const { neurons, connections } = networkState;
+  const [selectedNeuronIds, setSelectedNeuronIds] = useState([]);
+  const [selectedConnectionKey, setSelectedConnectionKey] = useState(null);
+  const [tool, setTool] = useState('select');
+  const [autoConnect, setAutoConnect] = useState(true);
+  const [editHistory, setEditHistory] = useState(createEditHistory);
+  const [clipboard, setClipboard] = useState(null);
+  const [selectionBox, setSelectionBox] = useState(null); // { x0, y0, x1, y1 } while box-selecting
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 }); // screen = world * scale + (x, y)
+  const [weightThreshold, setWeightThreshold] = useState(0);
+  const [selectionOnly, setSelectionOnly] = useState(false);
+
+  // Resolve selections against the live network so learned values stay current
+  const allNeurons = getAllNeurons(networkState);
+  const selectedNeurons = allNeurons.filter(n => selectedNeuronIds.includes(n.id));
+  const selectedNeuron = selectedNeurons.length === 1 ? selectedNeurons[0] : null;
+  const selectedConnection = connections.find(c => isSameConnection(c, selectedConnectionKey)) || null;
+  const selectedRuleKey = selectedConnection ? getConnectionRule(networkState, selectedConnection) : null;
+
+  // Lookups used while drawing and hit-testing, rebuilt only when the network changes
+  const neuronsById = useMemo(() => new Map(allNeurons.map(n => [n.id, n])), [networkState]);
+  const connectionKeys = useMemo(() => new Set(connections.map(c => `${c.from}->${c.to}`)), [connections]);
+  const hasReverse = (conn) => connectionKeys.has(`${conn.to}->${conn.from}`);
+
+  // Connections left after the weight threshold and selection filters
+  const visibleConnections = useMemo(() => {
+    const selected = new Set(selectedNeuronIds);
+    return connections.filter(c =>
+      Math.abs(c.weight) >= weightThreshold
+      && (!selectionOnly || selected.size === 0 || selected.has(c.from) || selected.has(c.to))
+    );
+  }, [connections, weightThreshold, selectionOnly, selectedNeuronIds]);
 
-  // Initialize input and output neurons
-  useEffect(() => {
-    // Initialize vision neurons (5x5 grid)
-    const visionNeurons = [];
-    for (let y = 0; y < VISION_GRID_SIZE; y++) {
-      for (let x = 0; x < VISION_GRID_SIZE; x++) {
-        visionNeurons.push({
-          id: `vision_${x}_${y}`,
-          x: VISION_START_X + x * VISION_NEURON_SPACING,
-          y: VISION_START_Y + y * VISION_NEURON_SPACING,
-          type: 'input',
-          subtype: 'vision',
-          activity: 0
-        });
-      }
-    }
+  const canvasRef = useRef(null);
+  const dragRef = useRef(null); // pointer drag in progress: moving neurons or a selection box
 
-    // Add reward neuron below vision grid
-    visionNeurons.push({
-      id: 'reward',
-      x: VISION_START_X + (VISION_GRID_SIZE * VISION_NEURON_SPACING) / 2,
-      y: VISION_START_Y + (VISION_GRID_SIZE * VISION_NEURON_SPACING) + 50,
-      type: 'input',
-      subtype: 'reward',
-      activity: 0
-    });
+  const setSelectedNeuron = (neuron) => setSelectedNeuronIds(neuron ? [neuron.id] : []);
+  const setSelectedConnection = (conn) =>
+    setSelectedConnectionKey(conn ? { from: conn.from, to: conn.to } : null);
 
-    // Initialize output neurons on the right side
-    const outputPositionY = VISION_START_Y + (VISION_GRID_SIZE * VISION_NEURON_SPACING) / 2;
-    const outputStartX = CANVAS_WIDTH - 100;  // Fixed X position on the right
-    const outputSpacing = 50;  // Vertical spacing between output neurons
-    
-    const outputNeurons = [
-      { id: 'up', x: outputStartX, y: outputPositionY - outputSpacing },
-      { id: 'down', x: outputStartX, y: outputPositionY + outputSpacing },
-      { id: 'left', x: outputStartX - outputSpacing, y: outputPositionY },
-      { id: 'right', x: outputStartX + outputSpacing, y: outputPositionY }
-    ].map(n => ({ ...n, type: 'output', activity: 0 }));
-
-    setNeurons({
-      input: visionNeurons,
-      hidden: [],
-      output: outputNeurons
-    });
-  }, []);
+  const patchNetwork = (patch) => {
+    if (!readOnly) applyPatch(patch);
+  };
 
-  // Create default connections for a new hidden neuron
-  const createDefaultConnections = (hiddenNeuronId) => {
-    const newConnections = [];
-    
-    // Connect all input neurons to the new hidden neuron
-    neurons.input.forEach(inputNeuron => {
-      newConnections.push({
-        from: inputNeuron.id,
-        to: hiddenNeuronId,
-        weight: DEFAULT_WEIGHT
-      });
-    });
+  const updateConnection = (target, changes) => {
+    patchNetwork({ type: 'setConnectionParams', connections: [{ from: target.from, to: target.to }], params: changes });
+  };
 
-    // Connect the new hidden neuron to all output neurons
-    neurons.output.forEach(outputNeuron => {
-      newConnections.push({
-        from: hiddenNeuronId,
-        to: outputNeuron.id,
-        weight: DEFAULT_WEIGHT
-      });
-    });
+  const setNeuronSign = (id, sign) => {
+    patchNetwork({ type: 'setNeuronParams', ids: [id], params: { sign: sign || undefined } });
+  };
 
-    return newConnections;
+  const updateHiddenNeuron = (id, changes) => {
+    patchNetwork({ type: 'setNeuronParams', ids: [id], params: changes });
   };
 
+  const updateNetwork = (params) => patchNetwork({ type: 'setNetworkParams', params });
+
   // Draw network
   const drawNetwork = () => {
     const ctx = canvasRef.current.getContext('2d');
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+
+    // World rectangle on screen, padded so partly visible neurons still draw
+    const pad = NEURON_RADIUS * 2;
+    const left = -view.x / view.scale - pad;
+    const top = -view.y / view.scale - pad;
+    const right = (CANVAS_WIDTH - view.x) / view.scale + pad;
+    const bottom = (CANVAS_HEIGHT - view.y) / view.scale + pad;
+    const onScreen = (n) => n.x >= left && n.x <= right && n.y >= top && n.y <= bottom;
+    const detailed = view.scale >= DETAIL_ZOOM;
+
+    // Connections are batched into one path per line width and activity, so
+    // thousands of them cost a handful of strokes
+    const batches = new Map();
+    const arrows = new Path2D();
+    const showArrows = detailed && visibleConnections.length <= ARROW_LIMIT;
+    const labels = [];
+
+    visibleConnections.forEach(conn => {
+      const from = neuronsById.get(conn.from);
+      const to = neuronsById.get(conn.to);
+      if (!from || !to || (!onScreen(from) && !onScreen(to))) return;
+      if (isSameConnection(selectedConnection, conn)) return; // drawn on top below
+
+      const { startX, startY, endX, endY } = connectionLine(from, to, hasReverse(conn));
+      const level = Math.max(1, Math.round(Math.abs(conn.weight) * WIDTH_LEVELS));
+      const key = `${level}|${from.activity > 0.5 ? 'active' : 'idle'}`;
+      if (!batches.has(key)) batches.set(key, new Path2D());
+      const path = batches.get(key);
+      path.moveTo(startX, startY);
+      path.lineTo(endX, endY);
+
+      if (showArrows) addArrow(arrows, startX, startY, endX, endY);
+      if (Math.abs(conn.weight) > 0.3) labels.push({ conn, x: (startX + endX) / 2, y: (startY + endY) / 2 });
+    });
 
-    // Draw connections with activity flow
-    connections.forEach(conn => {
-      const from = [...neurons.input, ...neurons.hidden, ...neurons.output]
-        .find(n => n.id === conn.from);
-      const to = [...neurons.input, ...neurons.hidden, ...neurons.output]
-        .find(n => n.id === conn.to);
-      
+    batches.forEach((path, key) => {
+      const [level, state] = key.split('|');
+      // Line width follows the weight; active sources glow yellow
+      ctx.lineWidth = Number(level) * 5 / WIDTH_LEVELS;
+      ctx.strokeStyle = state === 'active' ? 'rgba(230, 200, 0, 0.8)' : 'rgba(153, 153, 153, 0.6)';
+      ctx.stroke(path);
+    });
+    ctx.fillStyle = '#999';
+    ctx.fill(arrows);
+
+    if (selectedConnection) {
+      const from = neuronsById.get(selectedConnection.from);
+      const to = neuronsById.get(selectedConnection.to);
       if (from && to) {
-        // Calculate arrow points
-        const dx = to.x - from.x;
-        const dy = to.y - from.y;
-        const angle = Math.atan2(dy, dx);
-        const length = Math.sqrt(dx * dx + dy * dy);
-        
-        const arrowLength = 10;
-        const arrowWidth = 5;
-        
-        const endX = from.x + dx * (1 - NEURON_RADIUS / length);
-        const endY = from.y + dy * (1 - NEURON_RADIUS / length);
-        const startX = from.x + dx * (NEURON_RADIUS / length);
-        const startY = from.y + dy * (NEURON_RADIUS / length);
-
-        // Draw connection line with gradient based on activity flow
-        const gradient = ctx.createLinearGradient(startX, startY, endX, endY);
-        const activityColor = `rgba(255, 255, 0, ${from.activity})`; // Yellow for activity
-        gradient.addColorStop(0, activityColor);
-        gradient.addColorStop(1, 'rgba(153, 153, 153, 0.6)');
-
-        // Draw connection with width based on weight
+        const { startX, startY, endX, endY } = connectionLine(from, to, hasReverse(selectedConnection));
+        const arrow = new Path2D();
+        addArrow(arrow, startX, startY, endX, endY);
+        ctx.strokeStyle = '#FF0000';
+        ctx.lineWidth = Math.max(1, Math.abs(selectedConnection.weight) * 5);
         ctx.beginPath();
-        ctx.strokeStyle = selectedConnection === conn ? '#FF0000' : gradient;
-        ctx.lineWidth = Math.abs(conn.weight) * 5;
         ctx.moveTo(startX, startY);
         ctx.lineTo(endX, endY);
         ctx.stroke();
-
-        // Draw arrow head
-        ctx.beginPath();
-        ctx.moveTo(endX, endY);
-        ctx.lineTo(
-          endX - arrowLength * Math.cos(angle - Math.PI / 6),
-          endY - arrowLength * Math.sin(angle - Math.PI / 6)
-        );
-        ctx.lineTo(
-          endX - arrowLength * Math.cos(angle + Math.PI / 6),
-          endY - arrowLength * Math.sin(angle + Math.PI / 6)
-        );
-        ctx.closePath();
-        ctx.fillStyle = selectedConnection === conn ? '#FF0000' : '#999';
-        ctx.fill();
-
-        // Draw weight value
-        if (selectedConnection === conn || Math.abs(conn.weight) > 0.3) {
-          const midX = (from.x + to.x) / 2;
-          const midY = (from.y + to.y) / 2;
-          ctx.fillStyle = '#000';
-          ctx.font = '12px Arial';
-          ctx.fillText(conn.weight.toFixed(2), midX, midY);
-        }
+        ctx.fillStyle = '#FF0000';
+        ctx.fill(arrow);
+        labels.push({ conn: selectedConnection, x: (startX + endX) / 2, y: (startY + endY) / 2 });
       }
-    });
+    }
+
+    // Draw weight values
+    if (detailed && labels.length <= LABEL_LIMIT) {
+      ctx.fillStyle = '#000';
+      ctx.font = '12px Arial';
+      ctx.textAlign = 'left';
+      labels.forEach(({ conn, x, y }) => ctx.fillText(conn.weight.toFixed(2), x, y));
+    }
 
     // Draw neurons with activity visualization
     const drawNeuron = (neuron, isSelected = false) => {
@@ -204,7 +272,7 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
         if (neuron.subtype === 'reward') {
           ctx.fillStyle = '#FFD700';
         } else {
-          ctx.fillStyle = '#4CAF50';
+          ctx.fillStyle = SENSOR_CHANNELS[neuron.channel]?.color || '#4CAF50';
         }
       } else if (neuron.type === 'output') {
         ctx.fillStyle = '#2196F3';
@@ -232,6 +300,16 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
         ctx.fill();
       }
 
+      if (!detailed) return;
+
+      // Mark the sign of excitatory and inhibitory neurons
+      if (neuron.sign) {
+        ctx.fillStyle = neuron.sign === 'inhibitory' ? '#F44336' : '#000';
+        ctx.font = 'bold 12px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillText(neuron.sign === 'inhibitory' ? '−' : '+', neuron.x + NEURON_RADIUS, neuron.y - NEURON_RADIUS);
+      }
+
       // Draw activity value
       if (neuron.activity > 0.1) {
         ctx.fillStyle = '#000';
@@ -242,187 +320,383 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
     };
 
     // Draw all neurons
-    [...neurons.input, ...neurons.hidden, ...neurons.output].forEach(neuron => {
-      drawNeuron(neuron, selectedNeuron?.id === neuron.id);
+    const selected = new Set(selectedNeuronIds);
+    allNeurons.forEach(neuron => {
+      if (onScreen(neuron)) drawNeuron(neuron, selected.has(neuron.id));
     });
 
-    // Draw weight map for selected neuron
-    if (selectedNeuron) {
-      drawWeightMap(selectedNeuron);
+    if (selectionBox) {
+      ctx.strokeStyle = '#2196F3';
+      ctx.lineWidth = 1 / view.scale;
+      ctx.setLineDash([4 / view.scale, 4 / view.scale]);
+      ctx.strokeRect(selectionBox.x0, selectionBox.y0, selectionBox.x1 - selectionBox.x0, selectionBox.y1 - selectionBox.y0);
+      ctx.setLineDash([]);
     }
   };
 
-  // Draw weight map visualization
-  const drawWeightMap = (neuron) => {
-    const WEIGHT_MAP_SIZE = 120;
-    const WEIGHT_MAP_X = 20;
-    const WEIGHT_MAP_Y = CANVAS_HEIGHT - WEIGHT_MAP_SIZE - 20;
-
-    // Draw background
-    ctx.fillStyle = '#f0f0f0';
-    ctx.fillRect(WEIGHT_MAP_X, WEIGHT_MAP_Y, WEIGHT_MAP_SIZE, WEIGHT_MAP_SIZE);
-    ctx.strokeStyle = '#000';
-    ctx.strokeRect(WEIGHT_MAP_X, WEIGHT_MAP_Y, WEIGHT_MAP_SIZE, WEIGHT_MAP_SIZE);
-
-    // Get incoming and outgoing connections
-    const incomingConnections = connections.filter(conn => conn.to === neuron.id);
-    const outgoingConnections = connections.filter(conn => conn.from === neuron.id);
-
-    // Draw title
-    ctx.fillStyle = '#000';
-    ctx.font = '12px Arial';
-    ctx.fillText(`Weight Map - ${neuron.id}`, WEIGHT_MAP_X, WEIGHT_MAP_Y - 5);
-
-    // Draw incoming weights
-    if (incomingConnections.length > 0) {
-      const cellSize = WEIGHT_MAP_SIZE / Math.ceil(Math.sqrt(incomingConnections.length));
-      incomingConnections.forEach((conn, i) => {
-        const row = Math.floor(i / Math.ceil(Math.sqrt(incomingConnections.length)));
-        const col = i % Math.ceil(Math.sqrt(incomingConnections.length));
-        const x = WEIGHT_MAP_X + col * cellSize;
-        const y = WEIGHT_MAP_Y + row * cellSize;
-
-        // Color based on weight (-1 to 1 mapped to color)
-        const colorValue = Math.floor((conn.weight + 1) * 127.5);
-        ctx.fillStyle = conn.weight >= 0 
-          ? `rgb(${colorValue}, ${colorValue}, 255)` 
-          : `rgb(255, ${colorValue}, ${colorValue})`;
-        ctx.fillRect(x, y, cellSize, cellSize);
-        
-        // Draw weight value
-        ctx.fillStyle = '#000';
-        ctx.font = '10px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText(conn.weight.toFixed(2), x + cellSize/2, y + cellSize/2);
-      });
-    }
+  // Zoom by factor, keeping the point under (sx, sy) on screen in place
+  const zoomAt = (sx, sy, factor) => {
+    setView(prev => {
+      const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.scale * factor));
+      return {
+        scale,
+        x: sx - (sx - prev.x) * scale / prev.scale,
+        y: sy - (sy - prev.y) * scale / prev.scale
+      };
+    });
+  };
 
-    // Draw all neurons
-    [...neurons.input, ...neurons.hidden, ...neurons.output].forEach(neuron => {
-      drawNeuron(neuron, selectedNeuron?.id === neuron.id);
+  // Fit every neuron into the canvas
+  const fitView = () => {
+    if (allNeurons.length === 0) return;
+    const xs = allNeurons.map(n => n.x);
+    const ys = allNeurons.map(n => n.y);
+    const minX = Math.min(...xs) - FIT_MARGIN;
+    const minY = Math.min(...ys) - FIT_MARGIN;
+    const width = Math.max(...xs) + FIT_MARGIN - minX;
+    const height = Math.max(...ys) + FIT_MARGIN - minY;
+    const scale = Math.max(MIN_ZOOM, Math.min(1, CANVAS_WIDTH / width, CANVAS_HEIGHT / height));
+    setView({
+      scale,
+      x: (CANVAS_WIDTH - width * scale) / 2 - minX * scale,
+      y: (CANVAS_HEIGHT - height * scale) / 2 - minY * scale
+    });
+  };
+
+  const autoLayout = () => {
+    const to = layeredLayout(networkState);
+    const from = Object.fromEntries(Object.keys(to).map(id => {
+      const n = neuronsById.get(id);
+      return [id, { x: n.x, y: n.y }];
+    }));
+    if (Object.keys(to).length) execute(moveNeuronsCommand(from, to));
+  };
+
+  // Every structural edit goes through a command so it can be undone
+  const execute = (command) => {
+    if (readOnly) return;
+    patchNetwork(command.patch);
+    setEditHistory(history => recordCommand(history, command));
+  };
+
+  const undo = () => {
+    const command = editHistory.past[editHistory.past.length - 1];
+    if (!command || readOnly) return;
+    patchNetwork(command.inverse);
+    setEditHistory({ past: editHistory.past.slice(0, -1), future: [command, ...editHistory.future] });
+  };
+
+  const redo = () => {
+    const [command, ...future] = editHistory.future;
+    if (!command || readOnly) return;
+    patchNetwork(command.redo || command.patch);
+    setEditHistory({ past: [...editHistory.past, command], future });
+  };
+
+  // Additions are made by the worker on the live network, which returns the
+  // command to record; resolves with the added neuron ids, or null
+  const executeEdit = async (edit) => {
+    if (readOnly) return null;
+    const built = await editNetwork(edit);
+    if (!built) return null;
+    setEditHistory(history => recordCommand(history, built.command));
+    return built.ids;
+  };
+
+  const addNeuronAt = (x, y) => executeEdit({ type: 'addNeuron', x, y, autoConnect });
+
+  const connect = (from, to) => {
+    // The reverse direction is a separate (recurrent or lateral) connection
+    if (connections.some(c => c.from === from.id && c.to === to.id)) return;
+    executeEdit({ type: 'connect', from: from.id, to: to.id });
+  };
+
+  const deleteSelection = () => {
+    if (selectedNeuronIds.length === 0 && !selectedConnection) return;
+    execute(removeElementsCommand(networkState, selectedNeuronIds, selectedConnection ? [selectedConnection] : []));
+    setSelectedNeuron(null);
+    setSelectedConnection(null);
+  };
+
+  const copySelection = () => {
+    const copied = copyNeurons(networkState, selectedNeuronIds);
+    if (copied.neurons.length) setClipboard(copied);
+  };
+
+  const paste = () => {
+    if (!clipboard || readOnly) return;
+    executeEdit({ type: 'paste', clipboard }).then(ids => {
+      if (!ids) return;
+      setSelectedNeuronIds(ids);
+      setSelectedConnection(null);
+    });
+    // Paste again and the next copy lands one step further along
+    setClipboard({
+      ...clipboard,
+      neurons: clipboard.neurons.map(n => ({ ...n, x: n.x + PASTE_OFFSET, y: n.y + PASTE_OFFSET }))
     });
   };
 
+  const screenPoint = (event) => {
+    const rect = canvasRef.current.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  // Pointer position in network coordinates
+  const canvasPoint = (event) => {
+    const { x, y } = screenPoint(event);
+    return { x: (x - view.x) / view.scale, y: (y - view.y) / view.scale };
+  };
+
+  const neuronAt = ({ x, y }) => allNeurons.find(n => Math.hypot(n.x - x, n.y - y) < NEURON_RADIUS);
+
+  // Only connections that are drawn can be clicked
+  const connectionAt = ({ x, y }) => visibleConnections.find(conn => {
+    const from = neuronsById.get(conn.from);
+    const to = neuronsById.get(conn.to);
+    if (!from || !to) return false;
+
+    const { startX, startY, endX, endY } = connectionLine(from, to, hasReverse(conn));
+    const A = endY - startY;
+    const B = startX - endX;
+    const C = endX * startY - startX * endY;
+    const distance = Math.abs(A * x + B * y + C) / Math.sqrt(A * A + B * B);
+    const tolerance = HIT_TOLERANCE / view.scale;
+    return distance < tolerance && 
+           x >= Math.min(startX, endX) - tolerance && 
+           x <= Math.max(startX, endX) + tolerance &&
+           y >= Math.min(startY, endY) - tolerance && 
+           y <= Math.max(startY, endY) + tolerance;
+  });
+
   // Handle mouse events
   const handleMouseDown = (event) => {
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-
-    // Find clicked neuron
-    const clickedNeuron = [...neurons.input, ...neurons.hidden, ...neurons.output]
-      .find(n => Math.hypot(n.x - x, n.y - y) < NEURON_RADIUS);
-
-    // Find clicked connection
-    const clickedConnection = connections.find(conn => {
-      const from = [...neurons.input, ...neurons.hidden, ...neurons.output]
-        .find(n => n.id === conn.from);
-      const to = [...neurons.input, ...neurons.hidden, ...neurons.output]
-        .find(n => n.id === conn.to);
-      if (!from || !to) return false;
-
-      const A = to.y - from.y;
-      const B = from.x - to.x;
-      const C = to.x * from.y - from.x * to.y;
-      const distance = Math.abs(A * x + B * y + C) / Math.sqrt(A * A + B * B);
-      return distance < 5 && 
-             x >= Math.min(from.x, to.x) - 5 && 
-             x <= Math.max(from.x, to.x) + 5 &&
-             y >= Math.min(from.y, to.y) - 5 && 
-             y <= Math.max(from.y, to.y) + 5;
-    });
+    // Middle button drags the view whatever the tool
+    if (tool === 'pan' || event.button === 1) {
+      event.preventDefault();
+      dragRef.current = { type: 'pan', start: screenPoint(event), view };
+      return;
+    }
 
-    if (mode === 'delete') {
-      if (clickedNeuron?.type === 'hidden') {
-        // Delete hidden neuron and its connections
-        setNeurons(prev => ({
-          ...prev,
-          hidden: prev.hidden.filter(n => n.id !== clickedNeuron.id)
-        }));
-        setConnections(prev => 
-          prev.filter(c => c.from !== clickedNeuron.id && c.to !== clickedNeuron.id)
-        );
-      } else if (clickedConnection) {
-        // Delete connection
-        setConnections(prev => 
-          prev.filter(c => c !== clickedConnection)
-        );
-      }
-    } else {
+    // Selecting still works on a read-only network
+    if (readOnly && tool !== 'select' && tool !== 'box') return;
+    const point = canvasPoint(event);
+    const clickedNeuron = neuronAt(point);
+    const clickedConnection = clickedNeuron ? null : connectionAt(point);
+
+    if (tool === 'select') {
       if (clickedNeuron) {
-        if (selectedNeuron && selectedNeuron !== clickedNeuron) {
-          // Create new connection if it doesn't exist
-          const connectionExists = connections.some(
-            c => c.from === selectedNeuron.id && c.to === clickedNeuron.id ||
-                 c.from === clickedNeuron.id && c.to === selectedNeuron.id
-          );
-          
-          if (!connectionExists) {
-            setConnections(prev => [...prev, {
-              from: selectedNeuron.id,
-              to: clickedNeuron.id,
-              weight: DEFAULT_WEIGHT
-            }]);
-          }
-          setSelectedNeuron(null);
-        } else {
-          setSelectedNeuron(clickedNeuron);
-          setSelectedConnection(null);
-        }
+        // Shift-click adds to or removes from the selection
+        setSelectedNeuronIds(event.shiftKey
+          ? (selectedNeuronIds.includes(clickedNeuron.id)
+            ? selectedNeuronIds.filter(id => id !== clickedNeuron.id)
+            : [...selectedNeuronIds, clickedNeuron.id])
+          : [clickedNeuron.id]);
+        setSelectedConnection(null);
       } else if (clickedConnection) {
         setSelectedConnection(clickedConnection);
         setSelectedNeuron(null);
       } else {
-        // Add new hidden neuron
-        const newNeuron = {
-          id: `hidden_${Date.now()}`,
-          x,
-          y,
-          type: 'hidden',
-          activity: 0
-        };
-        
-        setNeurons(prev => ({
-          ...prev,
-          hidden: [...prev.hidden, newNeuron]
-        }));
-
-        // Create default connections
-        const newConnections = createDefaultConnections(newNeuron.id);
-        setConnections(prev => [...prev, ...newConnections]);
+        setSelectedNeuron(null);
+        setSelectedConnection(null);
       }
+    } else if (tool === 'move') {
+      if (!clickedNeuron) return;
+      // Dragging a selected neuron moves the whole selection
+      const ids = selectedNeuronIds.includes(clickedNeuron.id) ? selectedNeuronIds : [clickedNeuron.id];
+      if (ids !== selectedNeuronIds) setSelectedNeuronIds(ids);
+      const from = Object.fromEntries(allNeurons.filter(n => ids.includes(n.id)).map(n => [n.id, { x: n.x, y: n.y }]));
+      dragRef.current = { type: 'move', start: point, from, to: from };
+    } else if (tool === 'add') {
+      if (!clickedNeuron && !clickedConnection) addNeuronAt(point.x, point.y);
+    } else if (tool === 'connect') {
+      if (!clickedNeuron) return;
+      if (selectedNeuron && selectedNeuron.id !== clickedNeuron.id) {
+        connect(selectedNeuron, clickedNeuron);
+        setSelectedNeuron(null);
+      } else {
+        setSelectedNeuron(clickedNeuron);
+        setSelectedConnection(null);
+      }
+    } else if (tool === 'delete') {
+      if (clickedNeuron?.type === 'hidden') {
+        execute(removeElementsCommand(networkState, [clickedNeuron.id]));
+      } else if (clickedConnection) {
+        execute(removeElementsCommand(networkState, [], [clickedConnection]));
+      }
+    } else if (tool === 'box') {
+      dragRef.current = { type: 'box', start: point, additive: event.shiftKey };
+      setSelectionBox({ x0: point.x, y0: point.y, x1: point.x, y1: point.y });
+    }
+  };
+
+  const handleMouseMove = (event) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = canvasPoint(event);
+
+    if (drag.type === 'pan') {
+      const { x, y } = screenPoint(event);
+      setView({ ...drag.view, x: drag.view.x + x - drag.start.x, y: drag.view.y + y - drag.start.y });
+    } else if (drag.type === 'move') {
+      const dx = point.x - drag.start.x;
+      const dy = point.y - drag.start.y;
+      drag.to = Object.fromEntries(Object.entries(drag.from).map(([id, p]) => [id, { x: p.x + dx, y: p.y + dy }]));
+      setDragPositions(drag.to);
+    } else {
+      setSelectionBox({ x0: drag.start.x, y0: drag.start.y, x1: point.x, y1: point.y });
+    }
+  };
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+
+    if (drag.type === 'pan') return;
+    if (drag.type === 'move') {
+      if (drag.to !== drag.from) execute(moveNeuronsCommand(drag.from, drag.to));
+      setDragPositions(null);
+    } else if (selectionBox) {
+      const left = Math.min(selectionBox.x0, selectionBox.x1);
+      const right = Math.max(selectionBox.x0, selectionBox.x1);
+      const top = Math.min(selectionBox.y0, selectionBox.y1);
+      const bottom = Math.max(selectionBox.y0, selectionBox.y1);
+      const inside = allNeurons
+        .filter(n => n.x >= left && n.x <= right && n.y >= top && n.y <= bottom)
+        .map(n => n.id);
+      setSelectedNeuronIds(drag.additive ? [...new Set([...selectedNeuronIds, ...inside])] : inside);
+      setSelectedConnection(null);
+      setSelectionBox(null);
+    }
+  };
+
+  // Keyboard shortcuts while the canvas area has focus
+  const handleKeyDown = (event) => {
+    const modifier = event.ctrlKey || event.metaKey;
+    const key = event.key.toLowerCase();
+    if (modifier && key === 'z') {
+      if (event.shiftKey) redo();
+      else undo();
+    } else if (modifier && key === 'y') {
+      redo();
+    } else if (modifier && key === 'c') {
+      copySelection();
+    } else if (modifier && key === 'v') {
+      paste();
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      deleteSelection();
+    } else if (event.key === 'Escape') {
+      setSelectedNeuron(null);
+      setSelectedConnection(null);
+    } else {
+      return;
     }
+    event.preventDefault();
   };
 
   // Handle connection weight adjustment
   const adjustSelectedConnectionWeight = (delta) => {
     if (selectedConnection) {
-      setConnections(prev => prev.map(conn => 
-        conn === selectedConnection
-          ? { ...conn, weight: Math.max(-1, Math.min(1, conn.weight + delta)) }
-          : conn
-      ));
+      patchNetwork({ type: 'adjustWeight', connection: selectedConnectionKey, delta });
     }
   };
 
-  // Update canvas when network changes
+  // Update canvas when network changes, at most once per animation frame
   useEffect(() => {
-    if (canvasRef.current) {
-      drawNetwork();
-    }
-  }, [neurons, connections, selectedNeuron, selectedConnection, mode]);
+    if (!canvasRef.current) return;
+    const frame = requestAnimationFrame(drawNetwork);
+    return () => cancelAnimationFrame(frame);
+  }, [networkState, selectedNeuronIds, selectedConnectionKey, selectionBox, view, visibleConnections]);
+
+  // React's onWheel is passive, so zooming needs a native listener
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const handleWheel = (event) => {
+      event.preventDefault();
+      const { x, y } = screenPoint(event);
+      zoomAt(x, y, event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Start with the whole network in view
+  useEffect(fitView, []);
 
   return (
     <div className="flex flex-col gap-4">
       <Card>
         <CardContent className="p-4">
-          <div className="flex gap-4 mb-4">
-            <Button
-              onClick={() => setMode(mode === 'add' ? 'delete' : 'add')}
-              variant={mode === 'delete' ? "destructive" : "default"}
-            >
-              {mode === 'add' ? 'Add Mode' : 'Delete Mode'}
+          <div className="flex flex-wrap gap-2 mb-2">
+            {Object.entries(TOOLS).map(([key, { name, icon: Icon }]) => (
+              <Button
+                key={key}
+                size="sm"
+                variant={tool === key ? 'default' : 'outline'}
+                onClick={() => setTool(key)}
+                title={name}
+              >
+                <Icon className="w-4 h-4" />
+              </Button>
+            ))}
+            <Button size="sm" variant="outline" onClick={undo} disabled={readOnly || !editHistory.past.length}
+              title={editHistory.past.length ? `Undo ${editHistory.past[editHistory.past.length - 1].label} (Ctrl+Z)` : 'Undo'}>
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={redo} disabled={readOnly || !editHistory.future.length}
+              title={editHistory.future.length ? `Redo ${editHistory.future[0].label} (Ctrl+Shift+Z)` : 'Redo'}>
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={copySelection} disabled={!selectedNeurons.some(n => n.type === 'hidden')} title="Copy (Ctrl+C)">
+              <Copy className="w-4 h-4" />
             </Button>
+            <Button size="sm" variant="outline" onClick={paste} disabled={readOnly || !clipboard} title="Paste (Ctrl+V)">
+              <ClipboardPaste className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={autoLayout} disabled={readOnly} title="Layered layout">
+              <LayoutGrid className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={fitView} title="Fit to view">
+              <Maximize className="w-4 h-4" />
+            </Button>
+            <span className="text-xs self-center">{Math.round(view.scale * 100)}%</span>
+            {readOnly && <span className="text-xs self-center text-gray-600">Replaying: editing is off</span>}
+          </div>
+          <div className="flex gap-4 mb-2 items-center text-sm">
+            <div className="w-48">
+              <h4 className="text-xs mb-1">Hide weights below {weightThreshold.toFixed(2)}</h4>
+              <Slider
+                value={[weightThreshold]}
+                onValueChange={([value]) => setWeightThreshold(value)}
+                min={0}
+                max={1}
+                step={0.05}
+              />
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectionOnly}
+                onChange={(e) => setSelectionOnly(e.target.checked)}
+              />
+              Only connections of selected neurons
+            </label>
+            <span className="text-xs">{visibleConnections.length} of {connections.length} connections shown</span>
+          </div>
+          <div className="flex gap-4 mb-4 items-center text-sm">
+            <span>{TOOLS[tool].name}</span>
+            {tool === 'add' && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={autoConnect}
+                  onChange={(e) => setAutoConnect(e.target.checked)}
+                />
+                Connect to all inputs and outputs
+              </label>
+            )}
+            {selectedNeurons.length > 1 && <span>{selectedNeurons.length} neurons selected</span>}
             {selectedConnection && (
               <div className="flex gap-2 items-center">
                 <Button size="sm" onClick={() => adjustSelectedConnectionWeight(-0.1)}>-</Button>
@@ -431,19 +705,24 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
               </div>
             )}
           </div>
-          <canvas
-            ref={canvasRef}
-            width={CANVAS_WIDTH}
-            height={CANVAS_HEIGHT}
-            onClick={handleMouseDown}
-            className="border border-gray-200 cursor-crosshair"
-          />
+          <div tabIndex={0} onKeyDown={handleKeyDown} className="outline-none">
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+              className={`border border-gray-200 ${TOOLS[tool].cursor}`}
+            />
+          </div>
         </CardContent>
       </Card>
 
       <Card>
         <CardContent className="p-4 space-y-4">
-          {(selectedConnection || selectedNeuron?.type === 'hidden') && (
+          {(selectedConnection || selectedNeuron) && (
             <div className="space-y-4">
               {selectedConnection && (
                 <>
@@ -453,13 +732,7 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
                     <h4 className="text-xs mb-2">Learning Rate</h4>
                     <Slider
                       value={[selectedConnection.learningRate]}
-                      onValueChange={([value]) => {
-                        setConnections(prev => prev.map(conn => 
-                          conn === selectedConnection 
-                            ? { ...conn, learningRate: value }
-                            : conn
-                        ));
-                      }}
+                      onValueChange={([value]) => updateConnection(selectedConnection, { learningRate: value })}
                       min={0}
                       max={1}
                       step={0.1}
@@ -470,21 +743,64 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
                     <h4 className="text-xs mb-2">Decay Rate</h4>
                     <Slider
                       value={[selectedConnection.decay]}
-                      onValueChange={([value]) => {
-                        setConnections(prev => prev.map(conn => 
-                          conn === selectedConnection 
-                            ? { ...conn, decay: value }
-                            : conn
-                        ));
-                      }}
+                      onValueChange={([value]) => updateConnection(selectedConnection, { decay: value })}
                       min={0}
                       max={0.5}
                       step={0.01}
                     />
                   </div>
+
+                  <div>
+                    <h4 className="text-xs mb-2">Learning Rule</h4>
+                    <select
+                      className="w-full p-2 border rounded"
+                      value={selectedConnection.rule || ''}
+                      onChange={(e) => updateConnection(selectedConnection, { rule: e.target.value || undefined })}
+                    >
+                      <option value="">Network default ({getRule(networkState.defaultRule).name})</option>
+                      {Object.entries(LEARNING_RULES).map(([key, rule]) => (
+                        <option key={key} value={key}>{rule.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {getRule(selectedRuleKey).params.map(param => (
+                    <div key={param.key}>
+                      <h4 className="text-xs mb-2">{param.label}</h4>
+                      <Slider
+                        value={[getRuleParam(selectedConnection, selectedRuleKey, param.key)]}
+                        onValueChange={([value]) => updateConnection(selectedConnection, { [param.key]: value })}
+                        min={param.min}
+                        max={param.max}
+                        step={param.step}
+                      />
+                    </div>
+                  ))}
+
+                  {selectedRuleKey === 'modulated' && (
+                    <div className="text-xs">
+                      Eligibility: {(selectedConnection.eligibility || 0).toFixed(3)}
+                    </div>
+                  )}
                 </>
               )}
 
+              {selectedNeuron && (
+                <div>
+                  <h4 className="text-xs mb-2">Neuron Sign (Dale's law)</h4>
+                  <select
+                    className="w-full p-2 border rounded"
+                    value={selectedNeuron.sign || ''}
+                    onChange={(e) => setNeuronSign(selectedNeuron.id, e.target.value)}
+                  >
+                    <option value="">Mixed</option>
+                    {Object.entries(NEURON_SIGNS).map(([key, name]) => (
+                      <option key={key} value={key}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {selectedNeuron?.type === 'hidden' && (
                 <>
                   <h3 className="text-sm font-medium">Neuron Parameters</h3>
@@ -493,16 +809,7 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
                     <h4 className="text-xs mb-2">Activation Threshold</h4>
                     <Slider
                       value={[selectedNeuron.threshold]}
-                      onValueChange={([value]) => {
-                        setNeurons(prev => ({
-                          ...prev,
-                          hidden: prev.hidden.map(n => 
-                            n.id === selectedNeuron.id 
-                              ? { ...n, threshold: value }
-                              : n
-                          )
-                        }));
-                      }}
+                      onValueChange={([value]) => updateHiddenNeuron(selectedNeuron.id, { threshold: value })}
                       min={0}
                       max={1}
                       step={0.1}
@@ -513,16 +820,7 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
                     <h4 className="text-xs mb-2">Time Constant</h4>
                     <Slider
                       value={[selectedNeuron.timeConstant]}
-                      onValueChange={([value]) => {
-                        setNeurons(prev => ({
-                          ...prev,
-                          hidden: prev.hidden.map(n => 
-                            n.id === selectedNeuron.id 
-                              ? { ...n, timeConstant: value }
-                              : n
-                          )
-                        }));
-                      }}
+                      onValueChange={([value]) => updateHiddenNeuron(selectedNeuron.id, { timeConstant: value })}
                       min={0.1}
                       max={5}
                       step={0.1}
@@ -534,16 +832,7 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
                     <select
                       className="w-full p-2 border rounded"
                       value={selectedNeuron.activation}
-                      onChange={(e) => {
-                        setNeurons(prev => ({
-                          ...prev,
-                          hidden: prev.hidden.map(n => 
-                            n.id === selectedNeuron.id 
-                              ? { ...n, activation: e.target.value }
-                              : n
-                          )
-                        }));
-                      }}
+                      onChange={(e) => updateHiddenNeuron(selectedNeuron.id, { activation: e.target.value })}
                     >
                       <option value="sigmoid">Sigmoid</option>
                       <option value="relu">ReLU</option>
@@ -552,6 +841,79 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
                   </div>
                 </>
               )}
+
+              {(selectedNeuron?.type === 'hidden' || selectedNeuron?.type === 'output') && (
+                <>
+                  <h3 className="text-sm font-medium">Receptive Field</h3>
+                  <WeightScale />
+                  <div className="flex flex-wrap gap-4">
+                    {getGridChannels(networkState).map(channel => (
+                      <div key={channel} className="flex flex-col items-center gap-1">
+                        <ReceptiveFieldMap
+                          grid={getReceptiveField(networkState, selectedNeuron.id, channel)}
+                          cellSize={28}
+                          showValues
+                        />
+                        <span className="text-xs">{SENSOR_CHANNELS[channel].name}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <TemplatePanel
+            onApply={(templateKey, params, replace) => executeEdit({ type: 'applyTemplate', templateKey, params, replace })}
+          />
+
+          <div>
+            <h4 className="text-xs mb-2">Default Learning Rule</h4>
+            <select
+              className="w-full p-2 border rounded"
+              value={networkState.defaultRule}
+              onChange={(e) => updateNetwork({ defaultRule: e.target.value })}
+            >
+              {Object.entries(LEARNING_RULES).map(([key, rule]) => (
+                <option key={key} value={key}>{rule.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={!!networkState.daleLaw}
+              onChange={(e) => updateNetwork({ daleLaw: e.target.checked })}
+            />
+            Enforce Dale's law (signed neurons keep the sign of their outgoing weights)
+          </label>
+
+          <div>
+            <h4 className="text-xs mb-2">Output Group</h4>
+            <select
+              className="w-full p-2 border rounded"
+              value={networkState.outputMode || 'linear'}
+              onChange={(e) => updateNetwork({ outputMode: e.target.value })}
+            >
+              {Object.entries(OUTPUT_MODES).map(([key, name]) => (
+                <option key={key} value={key}>{name}</option>
+              ))}
+            </select>
+          </div>
+
+          {networkState.outputMode === 'softmax' && (
+            <div>
+              <h4 className="text-xs mb-2">
+                Softmax Temperature: {(networkState.outputTemperature || DEFAULT_OUTPUT_TEMPERATURE).toFixed(2)}
+              </h4>
+              <Slider
+                value={[networkState.outputTemperature || DEFAULT_OUTPUT_TEMPERATURE]}
+                onValueChange={([value]) => updateNetwork({ outputTemperature: value })}
+                min={0.05}
+                max={2}
+                step={0.05}
+              />
             </div>
           )}
 
@@ -559,6 +921,7 @@ const NeuralNetworkEditor = ({ networkState, setNetworkState, isLearning }) => {
             <div className="text-sm space-y-1">
               <div>Hidden Neurons: {neurons.hidden.length}</div>
               <div>Connections: {connections.length}</div>
+              <div>Dopamine: {(networkState.dopamine || 0).toFixed(2)}</div>
               {selectedNeuron && (
                 <div>Selected: {selectedNeuron.id}</div>
               )}
@@ -0,0 +1,67 @@
+// Ready-made obstacle layouts. Each generator returns the blocked cells for a
+// grid of the given size; the result is stored in the world config, so a
+// layout is saved with the network like hand-painted obstacles.
+
+import { createRng } from './random';
+
+const border = (gridSize) => {
+  const cells = [];
+  for (let i = 0; i < gridSize; i++) {
+    cells.push({ x: i, y: 0 }, { x: i, y: gridSize - 1 });
+    if (i > 0 && i < gridSize - 1) cells.push({ x: 0, y: i }, { x: gridSize - 1, y: i });
+  }
+  return cells;
+};
+
+// Two walls through the middle with a door in each half
+const fourRooms = (gridSize) => {
+  const middle = Math.floor(gridSize / 2);
+  const doors = [Math.floor(middle / 2), middle + Math.floor((gridSize - middle) / 2)];
+  const cells = [];
+  for (let i = 0; i < gridSize; i++) {
+    if (i === middle || doors.includes(i)) continue;
+    cells.push({ x: middle, y: i }, { x: i, y: middle });
+  }
+  cells.push({ x: middle, y: middle });
+  return cells;
+};
+
+// Depth-first maze: rooms on odd coordinates, everything else starts as wall
+const maze = (gridSize, seed) => {
+  const rng = createRng(seed);
+  const open = new Set();
+  const key = (x, y) => `${x},${y}`;
+  const stack = [{ x: 1, y: 1 }];
+  open.add(key(1, 1));
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const neighbours = [[2, 0], [-2, 0], [0, 2], [0, -2]]
+      .map(([dx, dy]) => ({ x: current.x + dx, y: current.y + dy, dx, dy }))
+      .filter(n => n.x > 0 && n.x < gridSize - 1 && n.y > 0 && n.y < gridSize - 1 && !open.has(key(n.x, n.y)));
+
+    if (neighbours.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const next = neighbours[rng.int(neighbours.length)];
+    open.add(key(current.x + next.dx / 2, current.y + next.dy / 2));
+    open.add(key(next.x, next.y));
+    stack.push({ x: next.x, y: next.y });
+  }
+
+  const cells = [];
+  for (let y = 0; y < gridSize; y++) {
+    for (let x = 0; x < gridSize; x++) {
+      if (!open.has(key(x, y))) cells.push({ x, y });
+    }
+  }
+  return cells;
+};
+
+export const OBSTACLE_LAYOUTS = {
+  empty: { name: 'Empty', generate: () => [] },
+  border: { name: 'Border wall', generate: border },
+  rooms: { name: 'Four rooms', generate: fourRooms },
+  maze: { name: 'Maze', generate: maze }
+};
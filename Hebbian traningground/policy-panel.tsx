@@ -0,0 +1,112 @@
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import {
+  ACTION_POLICIES,
+  ANNEAL_SCHEDULES,
+  DEFAULT_ANNEALING,
+  getPolicy,
+  getPolicyParams,
+  getActionProbabilities
+} from './action-policies';
+
+// Action policy settings (see action-policies.ts) and what the policy is
+// doing right now: the current annealed value and each move's probability
+const PolicyPanel = ({ network, patchNetwork, lastAction, move }) => {
+  const policy = getPolicy(network);
+  const definition = ACTION_POLICIES[policy.type];
+  const annealing = { ...DEFAULT_ANNEALING, ...policy.annealing };
+  const annealedParam = definition.params.find(p => p.key === definition.annealed);
+  const current = getPolicyParams(network, move);
+  const probabilities = getActionProbabilities(network, move);
+
+  const update = (changes) => patchNetwork({ type: 'setNetworkParams', params: { policy: { ...policy, ...changes } } });
+  const updateAnnealing = (changes) => update({ annealing: { ...annealing, ...changes } });
+
+  const paramValue = (param) => policy[param.key] !== undefined ? policy[param.key] : param.default;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-medium">Action Policy</h3>
+
+      <select
+        className="w-full p-2 border rounded"
+        value={policy.type}
+        onChange={(e) => update({ type: e.target.value })}
+      >
+        {Object.entries(ACTION_POLICIES).map(([key, p]) => (
+          <option key={key} value={key}>{p.name}</option>
+        ))}
+      </select>
+
+      {definition.params.map(param => (
+        <div key={param.key}>
+          <h4 className="text-xs mb-2">{param.label}: {paramValue(param).toFixed(2)}</h4>
+          <Slider
+            value={[paramValue(param)]}
+            onValueChange={([value]) => update({ [param.key]: value })}
+            min={param.min}
+            max={param.max}
+            step={param.step}
+          />
+        </div>
+      ))}
+
+      {annealedParam && (
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-xs mb-2">Annealing</h4>
+            <select
+              className="w-full p-2 border rounded"
+              value={annealing.schedule}
+              onChange={(e) => updateAnnealing({ schedule: e.target.value })}
+            >
+              {Object.entries(ANNEAL_SCHEDULES).map(([key, name]) => (
+                <option key={key} value={key}>{name}</option>
+              ))}
+            </select>
+          </div>
+
+          {annealing.schedule !== 'constant' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-xs mb-2">Final {annealedParam.label}: {annealing.final.toFixed(2)}</h4>
+                <Slider
+                  value={[annealing.final]}
+                  onValueChange={([value]) => updateAnnealing({ final: value })}
+                  min={annealedParam.min}
+                  max={annealedParam.max}
+                  step={annealedParam.step}
+                />
+              </div>
+              <div>
+                <h4 className="text-xs mb-2">Over {annealing.moves} moves</h4>
+                <Slider
+                  value={[annealing.moves]}
+                  onValueChange={([value]) => updateAnnealing({ moves: value })}
+                  min={100}
+                  max={50000}
+                  step={100}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs">
+            Current {annealedParam.label.toLowerCase()} at move {move}: {current[annealedParam.key].toFixed(3)}
+          </div>
+        </div>
+      )}
+
+      <div className="text-sm space-y-1">
+        <div>
+          Last move: {lastAction ? `${lastAction.action} (p = ${lastAction.probability.toFixed(2)})` : '—'}
+        </div>
+        <div className="text-xs">
+          Next move probabilities: {network.neurons.output.map((n, i) => `${n.id} ${probabilities[i].toFixed(2)}`).join(', ')}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PolicyPanel;
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { getArenaVisionCells } from './predator-arena';
+
+const CELL_SIZE = 20;
+
+const PredatorArenaView = ({ world }) => {
+  const { gridSize } = world.config;
+  const canvasRef = useRef(null);
+
+  const render = () => {
+    const ctx = canvasRef.current.getContext('2d');
+    const size = gridSize * CELL_SIZE;
+    ctx.clearRect(0, 0, size, size);
+
+    // Draw grid
+    ctx.strokeStyle = '#ddd';
+    for (let i = 0; i <= gridSize; i++) {
+      ctx.beginPath();
+      ctx.moveTo(i * CELL_SIZE, 0);
+      ctx.lineTo(i * CELL_SIZE, size);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(0, i * CELL_SIZE);
+      ctx.lineTo(size, i * CELL_SIZE);
+      ctx.stroke();
+    }
+
+    // Draw food
+    ctx.fillStyle = '#FFD700';
+    world.rewards.forEach(food => {
+      ctx.beginPath();
+      ctx.arc(food.x * CELL_SIZE + CELL_SIZE / 2, food.y * CELL_SIZE + CELL_SIZE / 2, CELL_SIZE / 3, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    // Draw predators, then the agent
+    ctx.fillStyle = '#F44336';
+    world.predators.forEach(p => {
+      ctx.fillRect(p.x * CELL_SIZE + 2, p.y * CELL_SIZE + 2, CELL_SIZE - 4, CELL_SIZE - 4);
+    });
+    ctx.fillStyle = '#4CAF50';
+    ctx.fillRect(world.agent.x * CELL_SIZE, world.agent.y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+
+    // Shade the field of view, wrapping across edges like the agent does
+    ctx.fillStyle = '#FF000022';
+    getArenaVisionCells(world).forEach(row => row.forEach(cell => {
+      ctx.fillRect(cell.x * CELL_SIZE, cell.y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+    }));
+  };
+
+  useEffect(() => {
+    if (canvasRef.current) render();
+  }, [world]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={gridSize * CELL_SIZE}
+      height={gridSize * CELL_SIZE}
+      className="border border-gray-200"
+    />
+  );
+};
+
+export default PredatorArenaView;
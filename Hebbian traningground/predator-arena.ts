@@ -0,0 +1,188 @@
+// Framework-free foraging arena with predators. The agent roams a wrapping
+// grid collecting food while predators close in on it; being caught is
+// punished and ends the episode, after which agent and predators respawn.
+// The agent sees food and predators through a vision window like the snake's.
+// Pure functions over a plain state, like snake-world.ts.
+
+import { createRng } from './random';
+import { MOVES } from './snake-world';
+import { VISION_CHANNELS } from './vision-channels';
+
+export const PREDATOR_ARENA_CONFIG = {
+  environment: 'predatorArena',
+  gridSize: 20,
+  visionSize: 5,
+  foodCount: 5,
+  predatorCount: 2,
+  predatorSpeed: 0.5 // chance per move that each predator steps towards the agent
+};
+
+// Settings that change the arena's layout; changing them restarts it
+const LAYOUT_KEYS = ['gridSize', 'visionSize', 'foodCount', 'predatorCount'];
+
+export const CAUGHT_PENALTY = -1;
+export const MAX_EPISODE_HISTORY = 100;
+const MAX_SPAWN_ATTEMPTS = 100;
+
+export const predatorNeuronId = (x, y) => `predator_${x}_${y}`;
+
+const wrap = (config, v) => (v % config.gridSize + config.gridSize) % config.gridSize;
+
+const sameCell = (a, b) => a.x === b.x && a.y === b.y;
+
+// Random cell that is not in `taken`, if one turns up
+const randomCell = (config, rng, taken) => {
+  let cell;
+  let attempts = 0;
+  do {
+    cell = { x: rng.int(config.gridSize), y: rng.int(config.gridSize) };
+  } while (taken.some(t => sameCell(t, cell)) && ++attempts < MAX_SPAWN_ATTEMPTS);
+  return cell;
+};
+
+// Agent in the centre, predators anywhere outside its field of view
+const spawnActors = (config, rng) => {
+  const centre = Math.floor(config.gridSize / 2);
+  const agent = { x: centre, y: centre };
+  const radius = Math.floor(config.visionSize / 2);
+  const inView = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      inView.push({ x: wrap(config, centre + dx), y: wrap(config, centre + dy) });
+    }
+  }
+  const predators = [];
+  for (let i = 0; i < config.predatorCount; i++) {
+    predators.push(randomCell(config, rng, [...inView, ...predators]));
+  }
+  return { agent, predators };
+};
+
+const createEpisode = (number) => ({ number, steps: 0, foodEaten: 0 });
+
+export const createArenaWorld = (config = PREDATOR_ARENA_CONFIG, seed = 0) => {
+  const rng = createRng(seed);
+  const { agent, predators } = spawnActors(config, rng);
+  const rewards = [];
+  for (let i = 0; i < config.foodCount; i++) {
+    rewards.push(randomCell(config, rng, [agent, ...predators, ...rewards]));
+  }
+
+  return {
+    config,
+    seed,
+    rngState: rng.getState(),
+    agent,
+    predators,
+    rewards, // food cells
+    stats: { rewardsCollected: 0, moves: 0 },
+    lastReward: 0,
+    episode: createEpisode(1),
+    episodes: [] // finished episodes: { number, steps, foodEaten }
+  };
+};
+
+// A new predator speed applies mid-run, layout changes restart the arena
+export const reconfigureArenaWorld = (state, config) => {
+  if (config === state.config) return state;
+  if (LAYOUT_KEYS.some(key => config[key] !== state.config[key])) return createArenaWorld(config, state.seed);
+  return { ...state, config };
+};
+
+// World cell under each vision cell, row by row
+export const getArenaVisionCells = (state) => {
+  const { visionSize } = state.config;
+  const offset = Math.floor(visionSize / 2);
+  const cells = [];
+  for (let y = 0; y < visionSize; y++) {
+    const row = [];
+    for (let x = 0; x < visionSize; x++) {
+      row.push({ x: wrap(state.config, state.agent.x - offset + x), y: wrap(state.config, state.agent.y - offset + y) });
+    }
+    cells.push(row);
+  }
+  return cells;
+};
+
+// Food is seen through the snake's food channel, so its neurons are shared
+export const observeArena = (state) => {
+  const foodNeuronId = VISION_CHANNELS.food.neuronId;
+  const cells = getArenaVisionCells(state);
+  let hasReward = false;
+  const inputs = {};
+  cells.forEach((row, y) => row.forEach((cell, x) => {
+    const food = state.rewards.some(r => sameCell(r, cell));
+    hasReward = hasReward || food;
+    inputs[foodNeuronId(x, y)] = food ? 1 : 0;
+    inputs[predatorNeuronId(x, y)] = state.predators.some(p => sameCell(p, cell)) ? 1 : 0;
+  }));
+  inputs.reward = hasReward ? 1 : 0;
+  return { inputs, hasReward };
+};
+
+// Shortest signed distance from a to b around the wrapping grid
+const towards = (config, a, b) => {
+  const d = wrap(config, b - a);
+  return d > config.gridSize / 2 ? d - config.gridSize : d;
+};
+
+// One step along the longer axis towards the agent
+const chase = (config, predator, agent) => {
+  const dx = towards(config, predator.x, agent.x);
+  const dy = towards(config, predator.y, agent.y);
+  if (dx === 0 && dy === 0) return predator;
+  return Math.abs(dx) >= Math.abs(dy)
+    ? { x: wrap(config, predator.x + Math.sign(dx)), y: predator.y }
+    : { x: predator.x, y: wrap(config, predator.y + Math.sign(dy)) };
+};
+
+export const stepArena = (state, action) => {
+  const { config } = state;
+  const rng = createRng(state.rngState);
+  const move = MOVES[action] || { dx: 0, dy: 0 };
+  const agent = { x: wrap(config, state.agent.x + move.dx), y: wrap(config, state.agent.y + move.dy) };
+
+  const stats = { ...state.stats, moves: state.stats.moves + 1 };
+  let episode = { ...state.episode, steps: state.episode.steps + 1 };
+
+  let rewards = state.rewards;
+  const foodIndex = rewards.findIndex(r => sameCell(r, agent));
+  const ate = foodIndex !== -1;
+  if (ate) {
+    rewards = [...rewards];
+    rewards.splice(foodIndex, 1);
+    rewards.push(randomCell(config, rng, [agent, ...state.predators, ...rewards]));
+    stats.rewardsCollected += 1;
+    episode = { ...episode, foodEaten: episode.foodEaten + 1 };
+  }
+
+  // Predators that were already on the agent's new cell catch it before moving
+  const predators = state.predators.map(p =>
+    !sameCell(p, agent) && rng.next() < config.predatorSpeed ? chase(config, p, agent) : p
+  );
+
+  if (predators.some(p => sameCell(p, agent))) {
+    const actors = spawnActors(config, rng);
+    return {
+      ...state,
+      ...actors,
+      rewards,
+      rngState: rng.getState(),
+      lastReward: CAUGHT_PENALTY,
+      stats,
+      episode: createEpisode(episode.number + 1),
+      episodes: [...state.episodes, episode].slice(-MAX_EPISODE_HISTORY)
+    };
+  }
+
+  return {
+    ...state,
+    agent,
+    predators,
+    rewards,
+    rngState: rng.getState(),
+    lastReward: ate ? 1 : 0,
+    stats,
+    episode
+  };
+};
@@ -0,0 +1,50 @@
+// Seedable pseudo-random generator (mulberry32). Its whole state is a single
+// 32-bit integer, so it can live inside plain world and network state objects.
+
+export const DEFAULT_SEED = 12345;
+
+const INCREMENT = 0x6D2B79F5; // added to the state by every draw
+
+// Multiplicative inverse of INCREMENT modulo 2^32 (Newton's iteration)
+let inverse = INCREMENT;
+for (let i = 0; i < 4; i++) inverse = Math.imul(inverse, 2 - Math.imul(INCREMENT, inverse));
+const INCREMENT_INVERSE = inverse >>> 0;
+
+export const createRng = (seed) => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + INCREMENT) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (n) => Math.floor(next() * n),
+    range: (min, max) => min + next() * (max - min),
+    getState: () => state
+  };
+};
+
+// Generator state after `draws` more draws
+export const advanceRng = (state, draws) => (state + Math.imul(draws, INCREMENT)) >>> 0;
+
+// Number of draws that took a generator from one state to another
+export const countDraws = (from, to) => Math.imul((to - from) >>> 0, INCREMENT_INVERSE) >>> 0;
+
+// Derive an independent stream from a seed, e.g. one for the world and one for the network
+export const deriveSeed = (seed, salt) => {
+  let h = (seed ^ Math.imul(salt, 0x9E3779B1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Parse a user-entered seed; anything that isn't a non-negative integer is rejected
+export const parseSeed = (text) => {
+  const value = Number(String(text).trim());
+  return Number.isInteger(value) && value >= 0 ? value >>> 0 : null;
+};
@@ -0,0 +1,63 @@
+import React, { useState, useMemo } from 'react';
+import { SENSOR_CHANNELS } from './environments';
+import { getGridChannels, indexReceptiveFields, readReceptiveField } from './receptive-field';
+import ReceptiveFieldMap, { WeightScale } from './receptive-field-map';
+
+// Receptive fields of all hidden and output neurons side by side, for one
+// vision channel at a time. They update live as the network learns; which
+// connections feed which cell is indexed once per network revision (bumped
+// by every edit, see use-simulation-worker.ts), as learning only changes
+// weights.
+const ReceptiveFieldGallery = ({ network, revision }) => {
+  const channels = useMemo(() => getGridChannels(network), [revision]);
+  const [chosenChannel, setChosenChannel] = useState('food');
+  const channel = channels.includes(chosenChannel) ? chosenChannel : channels[0];
+  const index = useMemo(() => channel && indexReceptiveFields(network, channel), [revision, channel]);
+
+  const section = (title, neurons) => neurons.length > 0 && (
+    <div>
+      <h4 className="text-xs mb-2">{title}</h4>
+      <div className="flex flex-wrap gap-4">
+        {neurons.map(neuron => (
+          <div key={neuron.id} className="flex flex-col items-center gap-1">
+            <ReceptiveFieldMap grid={readReceptiveField(network, index, neuron.id)} />
+            <span className="text-xs">{neuron.id}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Receptive Fields</h3>
+        <div className="flex items-center gap-4">
+          <WeightScale />
+          {channels.length > 1 && (
+            <select
+              className="p-2 border rounded"
+              value={channel}
+              onChange={(e) => setChosenChannel(e.target.value)}
+            >
+              {channels.map(key => (
+                <option key={key} value={key}>{SENSOR_CHANNELS[key].name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {channel ? (
+        <>
+          {section('Hidden Neurons', network.neurons.hidden)}
+          {section('Output Neurons', network.neurons.output)}
+        </>
+      ) : (
+        <div className="text-sm">No grid vision channel is enabled.</div>
+      )}
+    </div>
+  );
+};
+
+export default ReceptiveFieldGallery;
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef } from 'react';
+import { weightColor } from './receptive-field';
+
+const MISSING_COLOR = '#eee'; // cells without a connection
+
+// Heatmap of one neuron's receptive field for one vision channel (a grid from
+// receptive-field.ts). The centre cell is the snake's head; the map redraws
+// whenever the weights change.
+const ReceptiveFieldMap = ({ grid, cellSize = 16, showValues = false }) => {
+  const canvasRef = useRef(null);
+  const size = grid.length * cellSize;
+
+  useEffect(() => {
+    const ctx = canvasRef.current.getContext('2d');
+    ctx.clearRect(0, 0, size, size);
+
+    grid.forEach((row, y) => row.forEach((weight, x) => {
+      ctx.fillStyle = weight === null ? MISSING_COLOR : weightColor(weight);
+      ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+
+      if (showValues && weight !== null) {
+        ctx.fillStyle = '#000';
+        ctx.font = '10px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(weight.toFixed(2), (x + 0.5) * cellSize, (y + 0.5) * cellSize);
+      }
+    }));
+
+    // Outline the head's cell
+    const centre = Math.floor(grid.length / 2) * cellSize;
+    ctx.strokeStyle = '#000';
+    ctx.strokeRect(centre + 0.5, centre + 0.5, cellSize - 1, cellSize - 1);
+  }, [grid, cellSize, showValues]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size}
+      height={size}
+      className="border border-gray-200"
+    />
+  );
+};
+
+// Colour scale shared by all receptive-field maps
+export const WeightScale = () => (
+  <div className="flex items-center gap-2 text-xs">
+    <span>-1</span>
+    <div
+      className="h-3 w-32 border border-gray-200"
+      style={{ background: `linear-gradient(to right, ${weightColor(-1)}, ${weightColor(0)}, ${weightColor(1)})` }}
+    />
+    <span>+1</span>
+  </div>
+);
+
+export default ReceptiveFieldMap;
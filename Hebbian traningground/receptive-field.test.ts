@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDefaultNetwork, addHiddenNeuron } from './network-model';
+import { createWorld } from './environments';
+import { DEFAULT_WORLD_CONFIG } from './snake-world';
+import { createSimulation, runMoves } from './simulation';
+import { indexReceptiveFields, readReceptiveField } from './receptive-field';
+
+// Receptive field straight from the connection list
+const scanReceptiveField = (network, neuronId, size) => {
+  const weights = new Map(network.connections.filter(c => c.to === neuronId).map(c => [c.from, c.weight]));
+  return Array.from({ length: size }, (_, y) => Array.from({ length: size }, (_, x) =>
+    weights.has(`vision_${x}_${y}`) ? weights.get(`vision_${x}_${y}`) : null));
+};
+
+test('an index built before learning reads the learned weights', () => {
+  let network = createDefaultNetwork(9);
+  network = addHiddenNeuron(network, 300, 150);
+  network = addHiddenNeuron(network, 300, 250);
+  const index = indexReceptiveFields(network, 'food');
+
+  const trained = runMoves(createSimulation(network, createWorld(DEFAULT_WORLD_CONFIG, 9)), 50).network;
+  assert.notDeepEqual(trained.connections.map(c => c.weight), network.connections.map(c => c.weight));
+
+  [...trained.neurons.hidden, ...trained.neurons.output].forEach(neuron => {
+    assert.deepEqual(readReceptiveField(trained, index, neuron.id), scanReceptiveField(trained, neuron.id, 5));
+  });
+});
@@ -0,0 +1,52 @@
+// Receptive fields: the weights from one grid vision channel into a neuron,
+// laid out like the vision window they come from.
+
+import { SENSOR_CHANNELS } from './environments';
+
+// Grid channels that have input neurons in this network, in registry order
+export const getGridChannels = (network) =>
+  Object.keys(SENSOR_CHANNELS).filter(key =>
+    SENSOR_CHANNELS[key].kind === 'grid' && network.neurons.input.some(n => n.channel === key)
+  );
+
+// Connections from the channel's cells, by the neuron they lead to:
+// { size, byTarget } where byTarget maps a neuron id to [{ x, y, connection }]
+// and connection indexes network.connections. It depends only on the
+// topology, so one index serves every network with the same connections.
+export const indexReceptiveFields = (network, channelKey) => {
+  const channel = SENSOR_CHANNELS[channelKey];
+  const size = Math.round(Math.sqrt(network.neurons.input.filter(n => n.channel === channelKey).length));
+  const cells = new Map();
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) cells.set(channel.neuronId(x, y), { x, y });
+  }
+
+  const byTarget = new Map();
+  network.connections.forEach((c, connection) => {
+    const cell = cells.get(c.from);
+    if (!cell) return;
+    if (!byTarget.has(c.to)) byTarget.set(c.to, []);
+    byTarget.get(c.to).push({ ...cell, connection });
+  });
+  return { size, byTarget };
+};
+
+// visionSize x visionSize grid of weights from the indexed channel into the
+// neuron, row by row; null where there is no connection
+export const readReceptiveField = (network, index, neuronId) => {
+  const grid = Array.from({ length: index.size }, () => new Array(index.size).fill(null));
+  (index.byTarget.get(neuronId) || []).forEach(({ x, y, connection }) => {
+    grid[y][x] = network.connections[connection].weight;
+  });
+  return grid;
+};
+
+export const getReceptiveField = (network, neuronId, channelKey) =>
+  readReceptiveField(network, indexReceptiveFields(network, channelKey), neuronId);
+
+// Diverging scale: red for -1, white for 0, blue for +1
+export const weightColor = (weight) => {
+  const t = Math.min(1, Math.abs(weight));
+  const fade = Math.round(255 * (1 - t));
+  return weight >= 0 ? `rgb(${fade}, ${fade}, 255)` : `rgb(255, ${fade}, ${fade})`;
+};
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDefaultNetwork, addHiddenNeuron, getAllNeurons } from './network-model';
+import { createWorld } from './environments';
+import { DEFAULT_WORLD_CONFIG } from './snake-world';
+import { createSimulation, stepMove, startRecording, stopRecording } from './simulation';
+import { KEYFRAME_INTERVAL, getReplayFrame, serializeRecording, parseRecording } from './recording';
+
+const MOVES = KEYFRAME_INTERVAL * 2 + 30;
+const EDIT_AT = 150; // move at which a neuron is added mid-recording
+
+// Record a run move by move, keeping the live state after every move
+const recordRun = () => {
+  let simulation = startRecording(createSimulation(
+    addHiddenNeuron(createDefaultNetwork(4), 300, 200),
+    createWorld(DEFAULT_WORLD_CONFIG, 4)
+  ));
+  const expected = [];
+  for (let move = 1; move <= MOVES; move++) {
+    if (move === EDIT_AT) simulation = { ...simulation, network: addHiddenNeuron(simulation.network, 300, 300) };
+    simulation = stepMove(simulation);
+    expected.push({ world: simulation.world, network: simulation.network, action: simulation.lastAction });
+  }
+  return { recording: stopRecording(simulation).recording, expected };
+};
+
+// Recorded values are rounded to 6 significant digits, so within half a unit in the 6th digit
+const assertClose = (actual, expected, what) => {
+  assert.equal(actual.length, expected.length, what);
+  actual.forEach((value, i) => {
+    assert.ok(Math.abs(value - expected[i]) <= 5e-6 * Math.abs(expected[i]) + 1e-12, `${what}[${i}]: ${value} != ${expected[i]}`);
+  });
+};
+
+const assertFramesMatch = (recording, expected) => {
+  assert.equal(recording.frames.length, expected.length);
+  expected.forEach((live, index) => {
+    const frame = getReplayFrame(recording, index);
+    assert.deepEqual(frame.world, live.world);
+    assert.deepEqual(frame.action, live.action);
+    assert.deepEqual(frame.network.connections.map(c => [c.from, c.to]), live.network.connections.map(c => [c.from, c.to]));
+    assertClose(frame.network.connections.map(c => c.weight), live.network.connections.map(c => c.weight), `frame ${index} weights`);
+    assertClose(getAllNeurons(frame.network).map(n => n.activity), getAllNeurons(live.network).map(n => n.activity), `frame ${index} activities`);
+  });
+};
+
+test('replayed frames rebuild the recorded run from keyframes and deltas', () => {
+  const { recording, expected } = recordRun();
+  const keyframes = recording.frames.map((f, i) => f.network ? i : null).filter(i => i !== null);
+  assert.deepEqual(keyframes, [0, KEYFRAME_INTERVAL, EDIT_AT - 1, 2 * KEYFRAME_INTERVAL]);
+  assertFramesMatch(recording, expected);
+});
+
+test('a saved recording replays the same frames', () => {
+  const { recording, expected } = recordRun();
+  assertFramesMatch(parseRecording(serializeRecording(recording)), expected);
+});
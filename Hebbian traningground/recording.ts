@@ -0,0 +1,187 @@
+// Recordings of runs for replay. One frame is taken after every move: the
+// world (agent position, rewards, stats...), the action chosen and every
+// neuron activity and connection weight. Frames are stored as deltas:
+//
+//   keyframe  { move, action, world, network }   full world and network model
+//   delta     { move, action, world, activities, weights }
+//             world holds only the fields that changed since the last frame;
+//             activities and weights are flat [index, value, ...] lists of the
+//             values that changed, indexed like the keyframe's neurons
+//             (input, hidden, output) and connections. Values are rounded to
+//             VALUE_PRECISION significant digits, plenty for viewing, and
+//             smaller changes are left out
+//
+// A keyframe is written every KEYFRAME_INTERVAL frames, so any frame is at
+// most that many deltas away, and whenever the network was edited.
+//
+// File format, version 1:
+// { "format": "hebbian-recording", "version": 1, "frames": [...] }
+
+import { toNetwork } from './compiled-network';
+import { getAllNeurons } from './network-model';
+
+export const RECORDING_FILE_FORMAT = 'hebbian-recording';
+export const RECORDING_FILE_VERSION = 1;
+export const KEYFRAME_INTERVAL = 100;
+export const MAX_RECORDING_FRAMES = 20000; // recording stops here
+const VALUE_PRECISION = 6;
+
+// The recorder builds a recording during a run. Like the compiled network it
+// is mutable: frames are appended in place and it remembers the last values
+// written, to store only what changed.
+export const createRecorder = () => ({
+  frames: [],
+  compiled: null, // compiled network of the last frame
+  world: null,
+  activity: null,
+  weight: null
+});
+
+// Indices and rounded new values where current differs from previous, which
+// is updated
+const diffValues = (previous, current) => {
+  const changes = [];
+  for (let i = 0; i < current.length; i++) {
+    const value = Number(current[i].toPrecision(VALUE_PRECISION));
+    if (value !== previous[i]) {
+      changes.push(i, value);
+      previous[i] = value;
+    }
+  }
+  return changes;
+};
+
+// Append the frame for a finished move
+export const recordFrame = (recorder, compiled, world, action) => {
+  const { frames } = recorder;
+  if (frames.length >= MAX_RECORDING_FRAMES) return;
+  const move = world.stats.moves;
+
+  if (frames.length % KEYFRAME_INTERVAL === 0 || compiled !== recorder.compiled) {
+    frames.push({ move, action, world, network: toNetwork(compiled) });
+    recorder.compiled = compiled;
+    recorder.activity = Float64Array.from(compiled.activity);
+    recorder.weight = Float64Array.from(compiled.weight);
+  } else {
+    // Worlds share unchanged fields with the world before them
+    const changed = Object.fromEntries(Object.keys(world)
+      .filter(key => world[key] !== recorder.world[key])
+      .map(key => [key, world[key]]));
+    frames.push({
+      move,
+      action,
+      world: changed,
+      activities: diffValues(recorder.activity, compiled.activity),
+      weights: diffValues(recorder.weight, compiled.weight)
+    });
+  }
+  recorder.world = world;
+};
+
+export const finishRecording = (recorder) => ({
+  format: RECORDING_FILE_FORMAT,
+  version: RECORDING_FILE_VERSION,
+  frames: recorder.frames
+});
+
+const applyChanges = (values, changes) => {
+  for (let i = 0; i < changes.length; i += 2) values[changes[i]] = changes[i + 1];
+};
+
+// World, network and action at a frame, rebuilt from the keyframe before it
+export const getReplayFrame = (recording, index) => {
+  const { frames } = recording;
+  let start = index;
+  while (!frames[start].network) start--;
+
+  const { network } = frames[start];
+  let { world } = frames[start];
+  const activity = getAllNeurons(network).map(n => n.activity);
+  const weight = network.connections.map(c => c.weight);
+  for (let f = start + 1; f <= index; f++) {
+    world = { ...world, ...frames[f].world };
+    applyChanges(activity, frames[f].activities);
+    applyChanges(weight, frames[f].weights);
+  }
+
+  let i = 0;
+  const group = (list) => list.map(n => ({ ...n, activity: activity[i++] }));
+  return {
+    move: frames[index].move,
+    action: frames[index].action,
+    world,
+    network: {
+      ...network,
+      neurons: {
+        input: group(network.neurons.input),
+        hidden: group(network.neurons.hidden),
+        output: group(network.neurons.output)
+      },
+      connections: network.connections.map((c, k) => ({ ...c, weight: weight[k] }))
+    }
+  };
+};
+
+export const serializeRecording = (recording) => JSON.stringify(recording);
+
+// Validation helper: throws with the JSON path of the offending value
+const fail = (path, message) => {
+  throw new Error(`Invalid recording file: ${path} ${message}`);
+};
+
+const isObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Changes must be [index, value] pairs within the keyframe's sizes
+const validateChanges = (changes, size, path) => {
+  if (!Array.isArray(changes) || changes.length % 2 !== 0) fail(path, 'must be a list of index, value pairs');
+  for (let i = 0; i < changes.length; i += 2) {
+    if (!Number.isInteger(changes[i]) || changes[i] < 0 || changes[i] >= size) {
+      fail(`${path}[${i}]`, `must be an index below ${size} (got ${JSON.stringify(changes[i])})`);
+    }
+    if (typeof changes[i + 1] !== 'number') fail(`${path}[${i + 1}]`, 'must be a number');
+  }
+};
+
+// Parse and check the structure of a recording file; returns the recording
+export const parseRecording = (text) => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid recording file: not valid JSON (${error.message})`);
+  }
+
+  if (!isObject(data)) fail('file', 'must be an object');
+  if (data.format !== RECORDING_FILE_FORMAT) {
+    fail('format', `must be "${RECORDING_FILE_FORMAT}" (got ${JSON.stringify(data.format)})`);
+  }
+  if (data.version !== RECORDING_FILE_VERSION) {
+    fail('version', `${JSON.stringify(data.version)} is not supported (expected ${RECORDING_FILE_VERSION})`);
+  }
+  if (!Array.isArray(data.frames) || data.frames.length === 0) fail('frames', 'must be a non-empty list');
+
+  let neuronCount = 0;
+  let connectionCount = 0;
+  data.frames.forEach((frame, f) => {
+    const path = `frames[${f}]`;
+    if (!isObject(frame)) fail(path, 'must be an object');
+    if (!isObject(frame.world)) fail(`${path}.world`, 'must be an object');
+    if (frame.network !== undefined) {
+      const { network } = frame;
+      if (!isObject(network) || !isObject(network.neurons) || !Array.isArray(network.connections)
+        || !['input', 'hidden', 'output'].every(group => Array.isArray(network.neurons[group]))) {
+        fail(`${path}.network`, 'must be a network with neuron groups and connections');
+      }
+      if (!isObject(frame.world.config) || !isObject(frame.world.stats)) {
+        fail(`${path}.world`, 'must be a whole world on a keyframe');
+      }
+      neuronCount = getAllNeurons(network).length;
+      connectionCount = network.connections.length;
+    } else {
+      if (f === 0) fail(path, 'must be a keyframe with a network');
+      validateChanges(frame.activities, neuronCount, `${path}.activities`);
+      validateChanges(frame.weights, connectionCount, `${path}.weights`);
+    }
+  });
+  return data;
+};
@@ -0,0 +1,55 @@
+// The network update as the game loop did it before compiled-network.ts: a
+// deep copy of the network every tick, then a filter over all connections per
+// neuron and a find over all neurons per connection, O(N·C). It is kept only
+// as the baseline the compiled tick is checked and timed against (see
+// hebbian-network.test.ts and benchmark-network.ts), so it follows today's
+// synchronous update, rule registry, Dale's law and output modes.
+
+import { activationFunctions, outputActivities, DOPAMINE_TIME_CONSTANT } from './hebbian-network';
+import { getRule, getConnectionRule } from './learning-rules';
+import { getWeightBounds } from './network-model';
+
+export const referenceTick = (prev, dt) => {
+  // Deep copy the network state
+  const newState = JSON.parse(JSON.stringify(prev));
+  const allNeurons = [...newState.neurons.input, ...newState.neurons.hidden, ...newState.neurons.output];
+
+  // First pass: summed input to every neuron from the previous activities
+  const totalInput = (neuron) => newState.connections
+    .filter(c => c.to === neuron.id)
+    .reduce((sum, conn) => {
+      const sourceNeuron = allNeurons.find(n => n.id === conn.from);
+      return sum + (sourceNeuron ? sourceNeuron.activity * conn.weight : 0);
+    }, 0);
+  const hiddenTotals = newState.neurons.hidden.map(totalInput);
+  const outputTotals = newState.neurons.output.map(totalInput);
+
+  newState.neurons.hidden.forEach((neuron, i) => {
+    const dA = (-neuron.activity + hiddenTotals[i]) / neuron.timeConstant;
+    const activation = activationFunctions[neuron.activation] || activationFunctions.threshold;
+    neuron.activity = activation(neuron.activity + dA * dt, neuron.threshold);
+  });
+
+  if (outputTotals.length > 0) {
+    outputActivities(newState, outputTotals).forEach((activity, i) => {
+      newState.neurons.output[i].activity = activity;
+    });
+  }
+
+  // Second pass: Update weights with each connection's learning rule
+  const dopamine = newState.dopamine || 0;
+  newState.connections.forEach(conn => {
+    const preNeuron = allNeurons.find(n => n.id === conn.from);
+    const postNeuron = allNeurons.find(n => n.id === conn.to);
+
+    if (preNeuron && postNeuron) {
+      const rule = getRule(getConnectionRule(newState, conn));
+      const deltaW = rule.weightChange(conn, preNeuron.activity, postNeuron.activity, { dopamine });
+      const [low, high] = getWeightBounds(newState, conn, preNeuron);
+      conn.weight = Math.max(low, Math.min(high, conn.weight * (1 - conn.decay) + deltaW));
+    }
+  });
+
+  newState.dopamine = dopamine * Math.exp(-dt / DOPAMINE_TIME_CONSTANT);
+  return newState;
+};
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Circle, Square, PlayCircle, PauseCircle, Film, Radio, Download, Upload } from 'lucide-react';
+import { serializeRecording, parseRecording, MAX_RECORDING_FRAMES } from './recording';
+import { downloadFile } from './download-file';
+
+const REPLAY_INTERVAL = 100; // ms per frame at 1×
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+// Recording controls and the replay timeline (see recording.ts). While a
+// frame is selected the page shows it instead of the live run; frameIndex
+// null goes back to live.
+const ReplayPanel = ({
+  recordedFrames,
+  onStartRecording,
+  onStopRecording,
+  recording,
+  onRecordingChange,
+  frameIndex,
+  onFrameIndexChange,
+  frame
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [fileError, setFileError] = useState(null);
+  const fileInputRef = useRef(null);
+  const isRecording = recordedFrames !== null && recordedFrames !== undefined;
+  const lastFrame = recording ? recording.frames.length - 1 : 0;
+
+  // Play forward from the selected frame, stopping at the end
+  useEffect(() => {
+    if (!isPlaying || frameIndex === null) return;
+    if (frameIndex >= lastFrame) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onFrameIndexChange(frameIndex + 1), REPLAY_INTERVAL / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, lastFrame, speed]);
+
+  const importRecording = async (file) => {
+    try {
+      const loaded = parseRecording(await file.text());
+      setIsPlaying(false);
+      onRecordingChange(loaded);
+      onFrameIndexChange(0);
+      setFileError(null);
+    } catch (error) {
+      setFileError(`${file.name}: ${error.message}`);
+    }
+  };
+
+  const togglePlaying = () => {
+    if (frameIndex === null || frameIndex >= lastFrame) onFrameIndexChange(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 items-center">
+        <h3 className="text-sm font-medium mr-2">Recording</h3>
+        <Button onClick={isRecording ? onStopRecording : onStartRecording} variant={isRecording ? 'destructive' : 'outline'}>
+          {isRecording ? <Square className="mr-2" /> : <Circle className="mr-2" />}
+          {isRecording ? 'Stop Recording' : 'Record'}
+        </Button>
+        {isRecording && (
+          <span className="text-sm">
+            {recordedFrames} moves recorded{recordedFrames >= MAX_RECORDING_FRAMES ? ' (limit reached)' : ''}
+          </span>
+        )}
+        <Button
+          onClick={() => downloadFile(serializeRecording(recording), 'hebbian-recording.json')}
+          variant="outline"
+          disabled={!recording}
+        >
+          <Download className="mr-2" />
+          Export
+        </Button>
+        <Button onClick={() => fileInputRef.current.click()} variant="outline">
+          <Upload className="mr-2" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files[0]) importRecording(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {fileError && (
+        <div className="text-sm text-red-600">{fileError}</div>
+      )}
+
+      {recording && (
+        <div className="space-y-2">
+          <div className="flex gap-2 items-center">
+            <Button
+              onClick={() => {
+                setIsPlaying(false);
+                onFrameIndexChange(frameIndex === null ? 0 : null);
+              }}
+              variant={frameIndex === null ? 'outline' : 'default'}
+            >
+              {frameIndex === null ? <Film className="mr-2" /> : <Radio className="mr-2" />}
+              {frameIndex === null ? 'Replay' : 'Back to Live'}
+            </Button>
+            <Button onClick={togglePlaying} variant="outline">
+              {isPlaying ? <PauseCircle className="mr-2" /> : <PlayCircle className="mr-2" />}
+              {isPlaying ? 'Pause' : 'Play'}
+            </Button>
+            <select
+              className="p-2 border rounded"
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+            >
+              {REPLAY_SPEEDS.map(s => (
+                <option key={s} value={s}>{s}×</option>
+              ))}
+            </select>
+            {frame && (
+              <span className="text-sm">
+                Frame {frameIndex + 1} of {lastFrame + 1}, move {frame.move}
+                {frame.action ? `, went ${frame.action.action} (p = ${frame.action.probability.toFixed(2)})` : ''}
+              </span>
+            )}
+          </div>
+          <Slider
+            value={[frameIndex === null ? 0 : frameIndex]}
+            onValueChange={([value]) => onFrameIndexChange(value)}
+            min={0}
+            max={lastFrame}
+            step={1}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayPanel;
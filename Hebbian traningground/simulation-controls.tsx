@@ -0,0 +1,87 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { StepForward, SkipForward } from 'lucide-react';
+
+// Moves run per frame of the game loop
+const FAST_FORWARD_OPTIONS = [1, 10, 100];
+
+// Clock settings and single-step controls for the shared simulation clock
+// (see simulation.ts). Stepping is only offered while the run is paused.
+const SimulationControls = ({
+  clock,
+  onClockChange,
+  gameSpeed,
+  onGameSpeedChange,
+  fastForward,
+  onFastForwardChange,
+  onStepTick,
+  onStepMove,
+  isRunning,
+  tickIndex
+}) => {
+  const update = (changes) => onClockChange({ ...clock, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 items-center">
+        <Button onClick={onStepTick} variant="outline" disabled={isRunning}>
+          <StepForward className="mr-2" />
+          Step Tick
+        </Button>
+        <Button onClick={onStepMove} variant="outline" disabled={isRunning}>
+          <SkipForward className="mr-2" />
+          Step Move
+        </Button>
+        <span className="text-sm">Tick {tickIndex + 1} of {clock.substeps}</span>
+        <div className="flex gap-2 items-center ml-auto">
+          <span className="text-sm">Fast Forward</span>
+          <select
+            className="p-2 border rounded"
+            value={fastForward}
+            onChange={(e) => onFastForwardChange(Number(e.target.value))}
+          >
+            {FAST_FORWARD_OPTIONS.map(moves => (
+              <option key={moves} value={moves}>{moves}× moves per frame</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <h4 className="text-xs mb-2">Game Speed: {gameSpeed} ms per frame</h4>
+          <Slider
+            value={[gameSpeed]}
+            onValueChange={([value]) => onGameSpeedChange(value)}
+            min={50}
+            max={500}
+            step={50}
+          />
+        </div>
+        <div>
+          <h4 className="text-xs mb-2">Network Ticks per Move: {clock.substeps}</h4>
+          <Slider
+            value={[clock.substeps]}
+            onValueChange={([value]) => update({ substeps: value })}
+            min={1}
+            max={20}
+            step={1}
+          />
+        </div>
+        <div>
+          <h4 className="text-xs mb-2">Tick dt: {clock.dt.toFixed(2)} s</h4>
+          <Slider
+            value={[clock.dt]}
+            onValueChange={([value]) => update({ dt: value })}
+            min={0.01}
+            max={0.2}
+            step={0.01}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimulationControls;
@@ -0,0 +1,89 @@
+// Snapshots the simulation worker posts to the page (see simulation-worker.ts).
+// They carry the world and the network, which change every move, but only
+// what changed of the rest: the history's new samples, and the baseline runs
+// only when a different set of agents is running. The compiled network, the
+// recorder and the baselines' worlds and agent state stay in the worker.
+//
+//   { world, network, tickIndex, lastAction, manualAction, recordedFrames,
+//     history?, baselines? }
+//
+// history is { tracked, stride, baselineStarts, samples, reset } where
+// samples are the ones added since the last snapshot, or every sample when
+// reset is set (the samples were thinned or cleared). baselines is [{ type }]
+// for each baseline run.
+
+// What the page was sent last, to work out what changed
+export const createSnapshotState = () => ({ history: null, baselineTypes: null });
+
+const sameList = (a, b) => !!a && a.length === b.length && a.every((value, i) => value === b[i]);
+
+// Samples are appended as new objects, so the last one sent still being in
+// place means the ones before it are as well
+const historyChanges = (sent, history) => {
+  if (sent === history) return undefined;
+  const { tracked, stride, baselineStarts, samples } = history;
+  const count = sent ? sent.samples.length : 0;
+  const appended = !!sent && samples.length >= count && (count === 0 || samples[count - 1] === sent.samples[count - 1]);
+  return appended
+    ? { tracked, stride, baselineStarts, samples: samples.slice(count), reset: false }
+    : { tracked, stride, baselineStarts, samples, reset: true };
+};
+
+// Snapshot of a simulation, updating state with what it sends
+export const takeSnapshot = (state, simulation) => {
+  const { world, network, tickIndex, lastAction, manualAction, recorder, history, baselines } = simulation;
+  const snapshot = {
+    world,
+    network,
+    tickIndex,
+    lastAction,
+    manualAction,
+    recordedFrames: recorder ? recorder.frames.length : null
+  };
+
+  if (history) {
+    const changes = historyChanges(state.history, history);
+    if (changes) snapshot.history = changes;
+    state.history = history;
+  }
+
+  const types = baselines.map(run => run.type);
+  if (!sameList(state.baselineTypes, types)) snapshot.baselines = types.map(type => ({ type }));
+  state.baselineTypes = types;
+
+  return snapshot;
+};
+
+// One snapshot with the changes of two in a row, for a page that fell behind
+export const mergeSnapshots = (earlier, later) => {
+  const merged = { ...earlier, ...later };
+  if (!later.history) merged.history = earlier.history;
+  else if (earlier.history && !later.history.reset) {
+    merged.history = {
+      ...later.history,
+      samples: [...earlier.history.samples, ...later.history.samples],
+      reset: earlier.history.reset
+    };
+  }
+  if (!later.baselines) merged.baselines = earlier.baselines;
+  return merged;
+};
+
+// The page's copy of the simulation updated from a snapshot. Without
+// withNetwork the snapshot's network is left out, e.g. when it predates an
+// edit the page already made.
+export const applySnapshot = (simulation, snapshot, withNetwork = true) => {
+  const { network, history, baselines, ...rest } = snapshot;
+  const next = { ...simulation, ...rest };
+  if (withNetwork) next.network = network;
+  if (baselines) next.baselines = baselines;
+  if (history) {
+    const { reset, samples, ...settings } = history;
+    next.history = {
+      ...simulation.history,
+      ...settings,
+      samples: reset ? samples : [...simulation.history.samples, ...samples]
+    };
+  }
+  return next;
+};
@@ -0,0 +1,152 @@
+// Dedicated worker that owns the running simulation (see simulation.ts), so
+// training never blocks the page. The page sends commands and receives
+// snapshots of the simulation at most once per SNAPSHOT_INTERVAL.
+//
+// Commands, each tagged with the page's `revision` counter:
+//   { type: 'init', simulation }               replace the whole simulation
+//   { type: 'setRunning', running }            start or stop the game loop
+//   { type: 'setPace', clock, gameSpeed, fastForward }
+//   { type: 'stepTick' } / { type: 'stepMove' }
+//   { type: 'setNetwork', network }            replace the network, e.g. a loaded one
+//   { type: 'patchNetwork', patch }            an edit to the live network (see network-patches.ts)
+//   { type: 'editNetwork', edit }              an edit that draws from the live network's generator
+//   { type: 'restart', worldConfig, seed }     new world and history for a run
+//   { type: 'reconfigure', worldConfig }       world settings changed mid-run
+//   { type: 'setTracked', tracked }            history series to record
+//   { type: 'setBaselines', baselines }        baseline agent types to run alongside
+//   { type: 'setManualAction', action }        drive by hand, or null for the network
+//   { type: 'startRecording' } / { type: 'stopRecording' }
+//
+// Snapshots are { type: 'snapshot', revision, snapshot } where revision is
+// the last command applied, letting the page skip networks that predate its
+// own edits, and snapshot holds what changed (see simulation-snapshot.ts).
+// Stopping a recording posts { type: 'recording', recording } with the
+// finished one. Each editNetwork posts { type: 'edited', revision, edit }
+// with what buildDrawingEdit made of it (see editor-commands.ts), its command
+// already applied.
+
+import {
+  DEFAULT_CLOCK,
+  stepTick,
+  stepMove,
+  runMoves,
+  setBaselines,
+  setManualAction,
+  startRecording,
+  stopRecording,
+  restartBaselines,
+  reconfigureBaselines
+} from './simulation';
+import { createWorld, reconfigureWorld } from './environments';
+import { clearHistory, setTracked } from './history';
+import { applyNetworkPatch } from './network-patches';
+import { buildDrawingEdit } from './editor-commands';
+import { createSnapshotState, takeSnapshot } from './simulation-snapshot';
+
+const SNAPSHOT_INTERVAL = 16; // ms, about one display frame
+
+let simulation = null;
+let revision = 0;
+let pace = { clock: DEFAULT_CLOCK, gameSpeed: 200, fastForward: 1 };
+let running = false;
+let loopId = null;
+let snapshotTimer = null;
+let snapshotState = createSnapshotState();
+
+const postSnapshot = () => {
+  snapshotTimer = null;
+  self.postMessage({ type: 'snapshot', revision, snapshot: takeSnapshot(snapshotState, simulation) });
+};
+
+const scheduleSnapshot = () => {
+  if (!snapshotTimer) snapshotTimer = setTimeout(postSnapshot, SNAPSHOT_INTERVAL);
+};
+
+// Game loop: the interval only sets the pace, every frame runs whole moves
+// on the fixed clock
+const restartLoop = () => {
+  if (loopId) clearInterval(loopId);
+  loopId = null;
+  if (!running || !simulation) return;
+  loopId = setInterval(() => {
+    simulation = runMoves(simulation, pace.fastForward, pace.clock);
+    scheduleSnapshot();
+  }, pace.gameSpeed);
+};
+
+// Keep driving by hand in a new world only if it still has the move
+const keepManualAction = () => {
+  simulation = setManualAction(simulation, simulation.manualAction);
+};
+
+const commands = {
+  init: ({ simulation: next }) => {
+    simulation = next;
+    snapshotState = createSnapshotState();
+    restartLoop();
+  },
+  setRunning: ({ running: next }) => {
+    running = next;
+    restartLoop();
+  },
+  setPace: ({ clock, gameSpeed, fastForward }) => {
+    pace = { clock, gameSpeed, fastForward };
+    restartLoop();
+  },
+  stepTick: () => {
+    simulation = stepTick(simulation, pace.clock);
+  },
+  stepMove: () => {
+    simulation = stepMove(simulation, pace.clock);
+  },
+  setNetwork: ({ network }) => {
+    simulation = { ...simulation, network };
+  },
+  patchNetwork: ({ patch }) => {
+    simulation = { ...simulation, network: applyNetworkPatch(simulation.network, patch) };
+  },
+  editNetwork: ({ edit }) => {
+    const built = buildDrawingEdit(simulation.network, edit);
+    if (built) simulation = { ...simulation, network: applyNetworkPatch(simulation.network, built.command.patch) };
+    self.postMessage({ type: 'edited', revision, edit: built });
+  },
+  restart: ({ worldConfig, seed }) => {
+    simulation = restartBaselines({
+      ...simulation,
+      world: createWorld(worldConfig, seed),
+      tickIndex: 0,
+      history: clearHistory(simulation.history),
+      lastAction: null
+    }, worldConfig, seed);
+    keepManualAction();
+  },
+  reconfigure: ({ worldConfig }) => {
+    simulation = reconfigureBaselines({ ...simulation, world: reconfigureWorld(simulation.world, worldConfig) }, worldConfig);
+    keepManualAction();
+  },
+  setTracked: ({ tracked }) => {
+    simulation = { ...simulation, history: setTracked(simulation.history, tracked) };
+  },
+  setBaselines: ({ baselines }) => {
+    simulation = setBaselines(simulation, baselines);
+  },
+  setManualAction: ({ action }) => {
+    simulation = setManualAction(simulation, action);
+  },
+  startRecording: () => {
+    simulation = startRecording(simulation);
+  },
+  stopRecording: () => {
+    const stopped = stopRecording(simulation);
+    simulation = stopped.simulation;
+    if (stopped.recording) self.postMessage({ type: 'recording', recording: stopped.recording });
+  }
+};
+
+self.onmessage = ({ data }) => {
+  const command = commands[data.type];
+  if (!command) throw new Error(`Unknown simulation command "${data.type}"`);
+  revision = data.revision;
+  command(data);
+  if (simulation) scheduleSnapshot();
+};
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDefaultNetwork } from './network-model';
+import { applyTemplate } from './network-templates';
+import { createWorld } from './environments';
+import { DEFAULT_WORLD_CONFIG } from './snake-world';
+import { createHistory, connectionKey } from './history';
+import { DEFAULT_CLOCK, createSimulation, setBaselines, stepTick, stepMove, runMoves } from './simulation';
+
+const MOVES = 300;
+
+// A learning network with history and baselines running beside it
+const startRun = (seed) => {
+  const network = applyTemplate(createDefaultNetwork(seed), 'sparse', { size: 4 }, true);
+  const tracked = { connections: network.connections.slice(0, 3).map(connectionKey), neurons: [] };
+  const simulation = createSimulation(network, createWorld(DEFAULT_WORLD_CONFIG, seed), createHistory(tracked));
+  return setBaselines(simulation, ['random', 'qLearning']);
+};
+
+// Everything a replay shows; `compiled` is only a cache
+const outcome = ({ network, world, history, lastAction, baselines }) =>
+  ({ network, world, history, lastAction, baselines });
+
+test('a run replayed from the same seed ends the same', () => {
+  const first = runMoves(startRun(7), MOVES);
+  const second = runMoves(startRun(7), MOVES);
+  assert.equal(first.world.stats.moves, MOVES);
+  assert.deepEqual(outcome(second), outcome(first));
+});
+
+test('how a run is split into steps does not change where it ends', () => {
+  const whole = runMoves(startRun(7), MOVES);
+
+  let chunked = startRun(7);
+  for (let i = 0; i < 3; i++) chunked = runMoves(chunked, MOVES / 3);
+
+  let byMove = startRun(7);
+  for (let i = 0; i < MOVES; i++) byMove = stepMove(byMove);
+
+  let byTick = startRun(7);
+  for (let i = 0; i < MOVES * DEFAULT_CLOCK.substeps; i++) byTick = stepTick(byTick);
+
+  assert.deepEqual(outcome(chunked), outcome(whole));
+  assert.deepEqual(outcome(byMove), outcome(whole));
+  assert.deepEqual(outcome(byTick), outcome(whole));
+});
+
+test('a different seed gives a different run', () => {
+  const first = runMoves(startRun(7), MOVES);
+  const other = runMoves(startRun(8), MOVES);
+  assert.notDeepEqual(other.world, first.world);
+  assert.notDeepEqual(other.network.connections, first.network.connections);
+});
+
+test('a baseline added mid-run starts from the current move', () => {
+  const running = runMoves(startRun(7), MOVES);
+  const joined = setBaselines(running, ['random', 'qLearning', 'greedy']);
+  const greedy = joined.baselines.find(run => run.type === 'greedy');
+  assert.equal(greedy.world, running.world);
+  assert.deepEqual(joined.history.baselineStarts, { greedy: MOVES });
+
+  const later = runMoves(joined, 10);
+  const rated = later.history.samples.filter(s => s.baselineRates.greedy !== undefined);
+  assert.deepEqual(rated.map(s => s.move), Array.from({ length: 10 }, (_, i) => MOVES + i + 1));
+});
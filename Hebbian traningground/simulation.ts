@@ -0,0 +1,152 @@
+// One deterministic clock for the game and the network. Each move the snake
+// senses its surroundings, the network integrates `substeps` ticks of a fixed
+// `dt`, and the snake then moves where the outputs point. Nothing depends on
+// wall time, so a run ends the same in a background tab, in fast-forward or in
+// the headless trainer.
+
+import { observe, step, getActions } from './environments';
+import { setCompiledInputs, deliverCompiledReward, tickCompiled } from './hebbian-network';
+import { compileNetwork, toNetwork, toOutputNetwork } from './compiled-network';
+import { chooseAction } from './action-policies';
+import { recordSample, noteBaselineStart } from './history';
+import { createBaselineRun, stepBaselineRun, reconfigureBaselineRun } from './baseline-agents';
+import { createRecorder, recordFrame, finishRecording } from './recording';
+
+export const DEFAULT_CLOCK = {
+  substeps: 4, // network ticks per move
+  dt: 0.05     // seconds integrated per tick
+};
+
+// tickIndex counts the sub-steps already taken in the current move; a history
+// (see history.ts), when given, gets a sample after every move. lastAction
+// holds the latest move and the probability the policy gave it. `baselines`
+// are runs of baseline agents (see baseline-agents.ts) that move in step with
+// the network in their own copies of the world.
+//
+// While `manualAction` is set the user drives: every move takes that action
+// and the network ticks with its outputs clamped to it (teacher forcing),
+// learning from the demonstration. null leaves the moves to the network.
+//
+// `recorder`, while recording (see recording.ts), gets a frame after every
+// move. Like `compiled` it is mutable and not part of snapshots.
+//
+// `compiled` caches the network's indexed form between calls. It is reused
+// only while it still belongs to `network`: an edit replaces the network and
+// the next step compiles the new one.
+export const createSimulation = (network, world, history = null) => ({
+  network,
+  world,
+  tickIndex: 0,
+  history,
+  lastAction: null,
+  baselines: [],
+  manualAction: null,
+  recorder: null,
+  compiled: null
+});
+
+// One network tick on the compiled network; the move happens after the last sub-step
+const advance = (state, compiled, clock) => {
+  let { world, tickIndex, history, lastAction, baselines } = state;
+
+  if (tickIndex === 0) {
+    // Feed the current view and the reward from the last move to the network
+    const { inputs } = observe(world);
+    setCompiledInputs(compiled, inputs);
+    deliverCompiledReward(compiled, world.lastReward);
+  }
+
+  const { manualAction } = state;
+  tickCompiled(compiled, clock.dt, manualAction);
+  tickIndex += 1;
+
+  // >= so that lowering substeps mid-move still finishes the move
+  if (tickIndex >= clock.substeps) {
+    if (manualAction !== null) {
+      lastAction = { action: manualAction, probability: 1 };
+    } else {
+      const choice = chooseAction(toOutputNetwork(compiled), world.stats.moves, getActions(world.config));
+      compiled.rngState = choice.network.rngState;
+      lastAction = { action: choice.action, probability: choice.probability };
+    }
+    world = step(world, lastAction.action);
+    baselines = baselines.map(stepBaselineRun);
+    tickIndex = 0;
+    if (history) history = recordSample(history, compiled, world, baselines);
+    if (state.recorder) recordFrame(state.recorder, compiled, world, lastAction);
+  }
+
+  return { ...state, world, tickIndex, history, lastAction, baselines };
+};
+
+// Tick until done(state) holds, then write the network back to the model once
+const run = (simulation, clock, done) => {
+  const { network } = simulation;
+  const compiled = simulation.compiled && simulation.compiled.source === network
+    ? simulation.compiled
+    : compileNetwork(network);
+
+  let state = simulation;
+  do {
+    state = advance(state, compiled, clock);
+  } while (!done(state));
+
+  return { ...state, network: toNetwork(compiled), compiled };
+};
+
+// Advance by one network tick
+export const stepTick = (simulation, clock = DEFAULT_CLOCK) =>
+  run(simulation, clock, () => true);
+
+// Finish the current move, or run a whole one when between moves
+export const stepMove = (simulation, clock = DEFAULT_CLOCK) =>
+  run(simulation, clock, state => state.tickIndex === 0);
+
+export const runMoves = (simulation, moves, clock = DEFAULT_CLOCK) => {
+  if (moves <= 0) return simulation;
+  let remaining = moves;
+  return run(simulation, clock, state => state.tickIndex === 0 && --remaining === 0);
+};
+
+// Run the given baseline agents beside the network. Runs already going are
+// kept; a new one starts from the current move in a copy of the network's
+// world, rather than replaying every move so far, which would hold up the
+// run. The history notes the move it joined at.
+export const setBaselines = (simulation, types) => {
+  const { world } = simulation;
+  let { history } = simulation;
+  const baselines = types.map(type => {
+    const existing = simulation.baselines.find(run => run.type === type);
+    if (existing) return existing;
+
+    if (history && world.stats.moves > 0) history = noteBaselineStart(history, type, world.stats.moves);
+    return { ...createBaselineRun(type, world.config, world.seed), world };
+  });
+  return { ...simulation, baselines, history };
+};
+
+// Start the baselines over alongside a new run
+export const restartBaselines = (simulation, worldConfig, seed) => ({
+  ...simulation,
+  baselines: simulation.baselines.map(run => createBaselineRun(run.type, worldConfig, seed))
+});
+
+export const reconfigureBaselines = (simulation, worldConfig) => ({
+  ...simulation,
+  baselines: simulation.baselines.map(run => reconfigureBaselineRun(run, worldConfig))
+});
+
+// Drive with the given action from now on, or hand control back to the
+// network with null. Actions the world doesn't have hand control back too.
+export const setManualAction = (simulation, action) => ({
+  ...simulation,
+  manualAction: action !== null && getActions(simulation.world.config).includes(action) ? action : null
+});
+
+export const startRecording = (simulation) => ({ ...simulation, recorder: createRecorder() });
+
+// Stop recording; returns the simulation and the finished recording
+export const stopRecording = (simulation) => ({
+  simulation: { ...simulation, recorder: null },
+  recording: simulation.recorder ? finishRecording(simulation.recorder) : null
+});
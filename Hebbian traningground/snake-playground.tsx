@@ -1,124 +1,76 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
-import { Slider } from '@/components/ui/slider';
+import { DEFAULT_WORLD_CONFIG, getVisionCells, isObstacle } from './snake-world';
+import WorldConfigPanel from './world-config-panel';
 
-const GRID_SIZE = 20;
 const CELL_SIZE = 20;
-const VISION_SIZE = 5;
-
-const SnakePlayground = ({ onVisionUpdate, getNextMove, isRunning }) => {
-  // Game state
-  const [snake, setSnake] = useState({ x: 10, y: 10, direction: 'right' });
-  const [rewards, setRewards] = useState([]);
-  const [stats, setStats] = useState({ rewardsCollected: 0, moves: 0 });
-  
-  // Configuration state
-  const [rewardDensity, setRewardDensity] = useState(5);
-  const [gameSpeed, setGameSpeed] = useState(200);
-  
-  const canvasRef = useRef(null);
-  const gameLoopRef = useRef(null);
-
-  // Initialize rewards
-  const spawnRewards = () => {
-    const newRewards = [];
-    for (let i = 0; i < rewardDensity; i++) {
-      newRewards.push({
-        x: Math.floor(Math.random() * GRID_SIZE),
-        y: Math.floor(Math.random() * GRID_SIZE)
-      });
-    }
-    setRewards(newRewards);
-  };
 
-  // Get 5x5 vision grid around snake
-  const getVisionGrid = () => {
-    const vision = Array(VISION_SIZE).fill().map(() => Array(VISION_SIZE).fill(0));
-    const offset = Math.floor(VISION_SIZE / 2);
-    
-    for (let y = 0; y < VISION_SIZE; y++) {
-      for (let x = 0; x < VISION_SIZE; x++) {
-        const worldX = snake.x - offset + x;
-        const worldY = snake.y - offset + y;
-        
-        // Check if position is within bounds and contains reward
-        if (worldX >= 0 && worldX < GRID_SIZE && worldY >= 0 && worldY < GRID_SIZE) {
-          if (rewards.some(r => r.x === worldX && r.y === worldY)) {
-            vision[y][x] = 1;
-          }
-        }
-      }
-    }
-    return vision;
-  };
+// Draws the world and its settings; the world itself is advanced by the
+// simulation clock in HebbianSnake
+const SnakePlayground = ({
+  world,
+  isRunning,
+  worldConfig = DEFAULT_WORLD_CONFIG,
+  onWorldConfigChange,
+  seed = 0,
+  readOnly = false
+}) => {
+  const { snake, rewards, stats, episode, episodes } = world;
+  const { gridSize, classicMode, boundary } = world.config;
+  const lastEpisode = episodes[episodes.length - 1];
+  const bestLength = episodes.reduce((best, e) => Math.max(best, e.length), snake.body.length + 1);
 
-  // Update game state
-  const updateGame = () => {
-    setStats(prev => ({ ...prev, moves: prev.moves + 1 }));
-    
-    // Get vision grid and reward status
-    const visionGrid = getVisionGrid();
-    const hasReward = rewards.some(r => 
-      Math.abs(r.x - snake.x) <= 2 && Math.abs(r.y - snake.y) <= 2
-    );
+  const canvasRef = useRef(null);
 
-    // Update neural network
-    onVisionUpdate(visionGrid, hasReward);
-
-    // Get next move from network
-    const nextMove = getNextMove();
-    
-    // Update snake position based on direction
-    const newSnake = { ...snake };
-    switch (nextMove) {
-      case 'up':
-        newSnake.y = (newSnake.y - 1 + GRID_SIZE) % GRID_SIZE;
-        break;
-      case 'down':
-        newSnake.y = (newSnake.y + 1) % GRID_SIZE;
-        break;
-      case 'left':
-        newSnake.x = (newSnake.x - 1 + GRID_SIZE) % GRID_SIZE;
-        break;
-      case 'right':
-        newSnake.x = (newSnake.x + 1) % GRID_SIZE;
-        break;
-    }
-    newSnake.direction = nextMove;
-    setSnake(newSnake);
-    
-    // Check for reward collection
-    const rewardIndex = rewards.findIndex(r => r.x === newSnake.x && r.y === newSnake.y);
-    if (rewardIndex !== -1) {
-      setStats(prev => ({ ...prev, rewardsCollected: prev.rewardsCollected + 1 }));
-      const newRewards = [...rewards];
-      newRewards.splice(rewardIndex, 1);
-      newRewards.push({
-        x: Math.floor(Math.random() * GRID_SIZE),
-        y: Math.floor(Math.random() * GRID_SIZE)
-      });
-      setRewards(newRewards);
-    }
+  // Paint or erase an obstacle under the cursor while the game is paused
+  const handleCanvasClick = (event) => {
+    if (isRunning || readOnly) return;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const x = Math.floor((event.clientX - rect.left) / CELL_SIZE);
+    const y = Math.floor((event.clientY - rect.top) / CELL_SIZE);
+    if (x < 0 || x >= gridSize || y < 0 || y >= gridSize) return;
+
+    const obstacles = worldConfig.obstacles || [];
+    onWorldConfigChange({
+      ...worldConfig,
+      obstacles: isObstacle(worldConfig, x, y)
+        ? obstacles.filter(o => o.x !== x || o.y !== y)
+        : [...obstacles, { x, y }]
+    });
   };
 
   // Render game
   const renderGame = () => {
     const ctx = canvasRef.current.getContext('2d');
-    ctx.clearRect(0, 0, GRID_SIZE * CELL_SIZE, GRID_SIZE * CELL_SIZE);
+    ctx.clearRect(0, 0, gridSize * CELL_SIZE, gridSize * CELL_SIZE);
 
     // Draw grid
     ctx.strokeStyle = '#ddd';
-    for (let i = 0; i <= GRID_SIZE; i++) {
+    for (let i = 0; i <= gridSize; i++) {
       ctx.beginPath();
       ctx.moveTo(i * CELL_SIZE, 0);
-      ctx.lineTo(i * CELL_SIZE, GRID_SIZE * CELL_SIZE);
+      ctx.lineTo(i * CELL_SIZE, gridSize * CELL_SIZE);
       ctx.stroke();
       ctx.beginPath();
       ctx.moveTo(0, i * CELL_SIZE);
-      ctx.lineTo(GRID_SIZE * CELL_SIZE, i * CELL_SIZE);
+      ctx.lineTo(gridSize * CELL_SIZE, i * CELL_SIZE);
       ctx.stroke();
     }
 
+    // Draw obstacles
+    ctx.fillStyle = '#455A64';
+    (world.config.obstacles || []).forEach(o => {
+      ctx.fillRect(o.x * CELL_SIZE, o.y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+    });
+
+    // Walled worlds get a solid frame
+    if (boundary === 'walls') {
+      ctx.strokeStyle = '#455A64';
+      ctx.lineWidth = 4;
+      ctx.strokeRect(0, 0, gridSize * CELL_SIZE, gridSize * CELL_SIZE);
+      ctx.lineWidth = 1;
+    }
+
     // Draw rewards
     ctx.fillStyle = '#FFD700';
     rewards.forEach(reward => {
@@ -133,7 +85,11 @@ const SnakePlayground = ({ onVisionUpdate, getNextMove, isRunning }) => {
       ctx.fill();
     });
 
-    // Draw snake
+    // Draw snake body, then the head on top
+    ctx.fillStyle = '#A5D6A7';
+    snake.body.forEach(segment => {
+      ctx.fillRect(segment.x * CELL_SIZE, segment.y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+    });
     ctx.fillStyle = '#4CAF50';
     ctx.fillRect(
       snake.x * CELL_SIZE,
@@ -143,39 +99,19 @@ const SnakePlayground = ({ onVisionUpdate, getNextMove, isRunning }) => {
     );
 
     // Draw vision grid
-    ctx.strokeStyle = '#FF000066';
-    const offset = Math.floor(VISION_SIZE / 2);
-    ctx.strokeRect(
-      (snake.x - offset) * CELL_SIZE,
-      (snake.y - offset) * CELL_SIZE,
-      VISION_SIZE * CELL_SIZE,
-      VISION_SIZE * CELL_SIZE
-    );
+    // Shade each visible cell, so the view wraps across edges like the snake does
+    ctx.fillStyle = '#FF000022';
+    getVisionCells(world).forEach(row => row.forEach(cell => {
+      if (cell) ctx.fillRect(cell.x * CELL_SIZE, cell.y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+    }));
   };
 
-  // Game loop
-  useEffect(() => {
-    if (isRunning) {
-      gameLoopRef.current = setInterval(() => {
-        updateGame();
-      }, gameSpeed);
-    }
-    return () => {
-      if (gameLoopRef.current) clearInterval(gameLoopRef.current);
-    };
-  }, [isRunning, gameSpeed, snake, rewards]);
-
   // Render loop
   useEffect(() => {
     if (canvasRef.current) {
       renderGame();
     }
-  }, [snake, rewards]);
-
-  // Initialize game
-  useEffect(() => {
-    spawnRewards();
-  }, [rewardDensity]);
+  }, [world]);
 
   return (
     <div className="flex flex-col gap-4">
@@ -183,42 +119,41 @@ const SnakePlayground = ({ onVisionUpdate, getNextMove, isRunning }) => {
         <CardContent className="p-4">
           <canvas
             ref={canvasRef}
-            width={GRID_SIZE * CELL_SIZE}
-            height={GRID_SIZE * CELL_SIZE}
-            className="border border-gray-200"
+            width={gridSize * CELL_SIZE}
+            height={gridSize * CELL_SIZE}
+            onClick={handleCanvasClick}
+            className={`border border-gray-200 ${isRunning || readOnly ? '' : 'cursor-pointer'}`}
           />
         </CardContent>
       </Card>
 
       <Card>
         <CardContent className="p-4 space-y-4">
-          <div>
-            <h3 className="text-sm font-medium mb-2">Reward Density</h3>
-            <Slider
-              value={[rewardDensity]}
-              onValueChange={([value]) => setRewardDensity(value)}
-              min={1}
-              max={20}
-              step={1}
-            />
-          </div>
-
-          <div>
-            <h3 className="text-sm font-medium mb-2">Game Speed (ms per move)</h3>
-            <Slider
-              value={[gameSpeed]}
-              onValueChange={([value]) => setGameSpeed(value)}
-              min={50}
-              max={500}
-              step={50}
+          {!readOnly && (
+            <WorldConfigPanel
+              worldConfig={worldConfig}
+              onWorldConfigChange={onWorldConfigChange}
+              seed={seed}
             />
-          </div>
+          )}
 
           <div className="text-sm space-y-1">
             <div>Rewards Collected: {stats.rewardsCollected}</div>
             <div>Moves: {stats.moves}</div>
             <div>Reward Rate: {(stats.rewardsCollected / stats.moves || 0).toFixed(3)}</div>
           </div>
+
+          {classicMode && (
+            <div className="text-sm space-y-1">
+              <div>Episode {episode.number}: length {snake.body.length + 1}, {episode.steps} steps, {episode.foodEaten} food</div>
+              {lastEpisode && (
+                <div>
+                  Last episode: length {lastEpisode.length}, survived {lastEpisode.steps} steps, ate {lastEpisode.foodEaten}
+                </div>
+              )}
+              <div>Best Length: {bestLength}</div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
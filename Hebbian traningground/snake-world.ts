@@ -0,0 +1,269 @@
+// Framework-free snake world. All functions are pure: they take a world state
+// and return a new one, so the game can run headless in Node or in tests.
+// Randomness comes from the seeded generator whose state is kept in `rngState`.
+
+import { createRng } from './random';
+import { VISION_CHANNELS, DEFAULT_VISION_CHANNELS, getEnabledChannels } from './vision-channels';
+
+export const DEFAULT_WORLD_CONFIG = {
+  gridSize: 20,
+  visionSize: 5,
+  rewardDensity: 5,
+  classicMode: false, // growing body, self-collision ends the episode
+  visionChannels: DEFAULT_VISION_CHANNELS,
+  boundary: 'wrap',   // 'wrap' (toroidal) or 'walls'
+  obstacles: []       // static blocked cells: [{ x, y }]
+};
+
+export const BOUNDARIES = {
+  wrap: 'Wrap around',
+  walls: 'Walls'
+};
+
+// Reward delivered on a move that runs into a wall, an obstacle or the body
+export const COLLISION_PENALTY = -1;
+export const MAX_EPISODE_HISTORY = 100;
+
+export const MOVES = {
+  up: { dx: 0, dy: -1 },
+  down: { dx: 0, dy: 1 },
+  left: { dx: -1, dy: 0 },
+  right: { dx: 1, dy: 0 }
+};
+
+const OPPOSITE = { up: 'down', down: 'up', left: 'right', right: 'left' };
+const MAX_SPAWN_ATTEMPTS = 100;
+
+// Resolve a possibly out-of-range position against the boundary; null means
+// the position lies outside a walled world
+export const resolveCell = (config, x, y) => {
+  const { gridSize, boundary } = config;
+  if (boundary === 'walls') {
+    return x >= 0 && x < gridSize && y >= 0 && y < gridSize ? { x, y } : null;
+  }
+  return { x: (x % gridSize + gridSize) % gridSize, y: (y % gridSize + gridSize) % gridSize };
+};
+
+export const isObstacle = (config, x, y) =>
+  (config.obstacles || []).some(o => o.x === x && o.y === y);
+
+const isSnakeCell = (snake, x, y) =>
+  (snake.x === x && snake.y === y) || snake.body.some(s => s.x === x && s.y === y);
+
+// Random free cell, avoiding obstacles and the snake when possible
+const randomCell = (config, rng, snake) => {
+  let cell;
+  let attempts = 0;
+  do {
+    cell = { x: rng.int(config.gridSize), y: rng.int(config.gridSize) };
+  } while (
+    (isObstacle(config, cell.x, cell.y) || (snake && isSnakeCell(snake, cell.x, cell.y)))
+    && ++attempts < MAX_SPAWN_ATTEMPTS
+  );
+  return cell;
+};
+
+const spawnRewards = (config, rng, snake) => {
+  const rewards = [];
+  for (let i = 0; i < config.rewardDensity; i++) {
+    rewards.push(randomCell(config, rng, snake));
+  }
+  return rewards;
+};
+
+// Start in the centre, or on the free cell closest to it
+const startCell = (config) => {
+  const centre = Math.floor(config.gridSize / 2);
+  for (let radius = 0; radius < config.gridSize; radius++) {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const x = centre + dx;
+        const y = centre + dy;
+        if (x >= 0 && x < config.gridSize && y >= 0 && y < config.gridSize && !isObstacle(config, x, y)) {
+          return { x, y };
+        }
+      }
+    }
+  }
+  return { x: centre, y: centre };
+};
+
+const createSnake = (config) => ({
+  ...startCell(config),
+  direction: 'right',
+  body: [] // tail segments, nearest to the head first
+});
+
+const createEpisode = (number) => ({ number, steps: 0, foodEaten: 0 });
+
+export const createWorld = (config = DEFAULT_WORLD_CONFIG, seed = 0) => {
+  const rng = createRng(seed);
+  const snake = createSnake(config);
+  const rewards = spawnRewards(config, rng, snake);
+
+  return {
+    config,
+    seed,
+    rngState: rng.getState(),
+    snake,
+    rewards,
+    stats: { rewardsCollected: 0, moves: 0 },
+    lastReward: 0,
+    episode: createEpisode(1),
+    episodes: [] // finished episodes: { number, length, steps, foodEaten }
+  };
+};
+
+// Replace all rewards, e.g. after the reward density changed
+export const resetRewards = (state) => {
+  const rng = createRng(state.rngState);
+  const rewards = spawnRewards(state.config, rng, state.snake);
+  return { ...state, rewards, rngState: rng.getState() };
+};
+
+// Apply new settings mid-run: a new grid size restarts the world, a new reward
+// density or obstacle layout respawns the rewards, anything else just applies
+export const reconfigureWorld = (state, config) => {
+  const previous = state.config;
+  if (config === previous) return state;
+  if (config.gridSize !== previous.gridSize) return createWorld(config, state.seed);
+
+  let next = { ...state, config };
+  if (config.obstacles !== previous.obstacles && isObstacle(config, state.snake.x, state.snake.y)) {
+    next = { ...next, snake: createSnake(config) };
+  }
+  if (config.rewardDensity !== previous.rewardDensity || config.obstacles !== previous.obstacles) {
+    next = resetRewards(next);
+  }
+  return next;
+};
+
+// World cell under each vision cell, row by row; null outside a walled world
+export const getVisionCells = (state) => {
+  const { visionSize } = state.config;
+  const offset = Math.floor(visionSize / 2);
+  const cells = [];
+
+  for (let y = 0; y < visionSize; y++) {
+    const row = [];
+    for (let x = 0; x < visionSize; x++) {
+      row.push(resolveCell(state.config, state.snake.x - offset + x, state.snake.y - offset + y));
+    }
+    cells.push(row);
+  }
+  return cells;
+};
+
+// One channel's view as a visionSize x visionSize grid
+export const getChannelGrid = (state, channelKey, cells = getVisionCells(state)) => {
+  const channel = VISION_CHANNELS[channelKey];
+  return cells.map(row => row.map(cell => channel.sense(state, cell)));
+};
+
+// Whether any reward lies inside the snake's field of view
+export const hasRewardInView = (state, cells = getVisionCells(state)) =>
+  cells.some(row => row.some(cell =>
+    cell && state.rewards.some(r => r.x === cell.x && r.y === cell.y)
+  ));
+
+// Activity for every input neuron, keyed by neuron id
+export const observe = (state) => {
+  const cells = getVisionCells(state);
+  const hasReward = hasRewardInView(state, cells);
+  const inputs = { reward: hasReward ? 1 : 0 };
+
+  getEnabledChannels(state.config).forEach(key => {
+    const channel = VISION_CHANNELS[key];
+    if (channel.kind === 'grid') {
+      getChannelGrid(state, key, cells).forEach((row, y) => {
+        row.forEach((value, x) => {
+          inputs[channel.neuronId(x, y)] = value;
+        });
+      });
+    } else {
+      Object.assign(inputs, channel.senseAll(state));
+    }
+  });
+
+  return { inputs, hasReward };
+};
+
+// Advance the world by one move. Walls and obstacles block the move and are
+// punished with COLLISION_PENALTY. In classic mode the body follows the head,
+// grows when food is eaten, and any collision (including with the body) ends
+// the episode: the snake respawns and the episode is recorded.
+export const step = (state, action) => {
+  const { config } = state;
+  const { classicMode } = config;
+  const rng = createRng(state.rngState);
+  const previous = state.snake;
+
+  // A classic snake can't turn back onto its own neck; it keeps going instead
+  const heading = !MOVES[action] || (classicMode && previous.body.length > 0 && OPPOSITE[action] === previous.direction)
+    ? previous.direction
+    : action;
+  const move = MOVES[heading];
+  const target = resolveCell(config, previous.x + move.dx, previous.y + move.dy);
+  const body = classicMode ? [{ x: previous.x, y: previous.y }, ...previous.body] : [];
+
+  let rewards = state.rewards;
+  const rewardIndex = target ? rewards.findIndex(r => r.x === target.x && r.y === target.y) : -1;
+  const ate = rewardIndex !== -1;
+  if (classicMode && !ate) body.pop();
+
+  const stats = { ...state.stats, moves: state.stats.moves + 1 };
+  let episode = { ...state.episode, steps: state.episode.steps + 1 };
+
+  const collided = !target
+    || isObstacle(config, target.x, target.y)
+    || body.some(s => s.x === target.x && s.y === target.y);
+
+  if (collided && classicMode) {
+    // Record the episode and start a new one
+    const finished = {
+      number: episode.number,
+      length: previous.body.length + 1,
+      steps: episode.steps,
+      foodEaten: episode.foodEaten
+    };
+    return {
+      ...state,
+      snake: createSnake(config),
+      lastReward: COLLISION_PENALTY,
+      stats,
+      episode: createEpisode(episode.number + 1),
+      episodes: [...state.episodes, finished].slice(-MAX_EPISODE_HISTORY)
+    };
+  }
+
+  if (collided) {
+    // Bumped into a wall or obstacle: stay put
+    return {
+      ...state,
+      snake: { ...previous, direction: heading },
+      lastReward: COLLISION_PENALTY,
+      stats,
+      episode
+    };
+  }
+
+  const snake = { ...target, direction: heading, body };
+
+  if (ate) {
+    rewards = [...rewards];
+    rewards.splice(rewardIndex, 1);
+    rewards.push(randomCell(config, rng, snake));
+    stats.rewardsCollected += 1;
+    episode = { ...episode, foodEaten: episode.foodEaten + 1 };
+  }
+
+  return {
+    ...state,
+    snake,
+    rewards,
+    lastReward: ate ? 1 : 0,
+    rngState: rng.getState(),
+    stats,
+    episode
+  };
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { NETWORK_TEMPLATES, getTemplateDefaults } from './network-templates';
+
+// Generate a starting architecture from a template (see network-templates.ts)
+const TemplatePanel = ({ onApply }) => {
+  const [templateKey, setTemplateKey] = useState('directionDetectors');
+  const [params, setParams] = useState(() => getTemplateDefaults('directionDetectors'));
+  const [replace, setReplace] = useState(true);
+  const template = NETWORK_TEMPLATES[templateKey];
+
+  const chooseTemplate = (key) => {
+    setTemplateKey(key);
+    setParams(getTemplateDefaults(key));
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-medium">Network Template</h3>
+
+      <select
+        className="w-full p-2 border rounded"
+        value={templateKey}
+        onChange={(e) => chooseTemplate(e.target.value)}
+      >
+        {Object.entries(NETWORK_TEMPLATES).map(([key, t]) => (
+          <option key={key} value={key}>{t.name}</option>
+        ))}
+      </select>
+      <div className="text-xs text-gray-600">{template.description}</div>
+
+      {template.params.map(param => (
+        <div key={param.key}>
+          {param.options ? (
+            <>
+              <h4 className="text-xs mb-2">{param.label}</h4>
+              <select
+                className="w-full p-2 border rounded"
+                value={params[param.key]}
+                onChange={(e) => setParams({ ...params, [param.key]: e.target.value })}
+              >
+                {Object.entries(param.options).map(([key, option]) => (
+                  <option key={key} value={key}>{option.name}</option>
+                ))}
+              </select>
+            </>
+          ) : (
+            <>
+              <h4 className="text-xs mb-2">{param.label}: {params[param.key]}</h4>
+              <Slider
+                value={[params[param.key]]}
+                onValueChange={([value]) => setParams({ ...params, [param.key]: value })}
+                min={param.min}
+                max={param.max}
+                step={param.step}
+              />
+            </>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={replace}
+            onChange={(e) => setReplace(e.target.checked)}
+          />
+          Replace hidden neurons and connections
+        </label>
+        <Button
+          size="sm"
+          onClick={() => onApply(templateKey, params, replace)}
+        >
+          Apply Template
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePanel;
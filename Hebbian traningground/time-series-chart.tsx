@@ -0,0 +1,147 @@
+import React, { useEffect, useRef } from 'react';
+
+const WIDTH = 500;
+const HEIGHT = 140;
+const PADDING = { left: 40, right: 10, top: 10, bottom: 20 };
+const ZOOM_STEP = 1.25;
+const MIN_SPAN = 10; // moves
+
+// Line chart over history samples. The visible move range is shared between
+// charts: scroll to zoom around the cursor, drag to pan, double-click to show
+// the whole run again.
+const TimeSeriesChart = ({ title, samples, series, range, onRangeChange, yRange, guides = [] }) => {
+  const canvasRef = useRef(null);
+  const dragRef = useRef(null);
+
+  const firstMove = samples.length ? samples[0].move : 0;
+  const lastMove = samples.length ? samples[samples.length - 1].move : 1;
+  const start = range ? Math.max(firstMove, range.start) : firstMove;
+  const end = range ? Math.min(lastMove, range.end) : lastMove;
+  const span = Math.max(1, end - start);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const moveAt = (clientX) => {
+    const rect = canvasRef.current.getBoundingClientRect();
+    return start + (clientX - rect.left - PADDING.left) / plotWidth * span;
+  };
+
+  const setRange = (from, to) => {
+    const total = lastMove - firstMove;
+    if (to - from >= total) {
+      onRangeChange(null);
+      return;
+    }
+    const shift = Math.max(0, firstMove - from) - Math.max(0, to - lastMove);
+    onRangeChange({ start: from + shift, end: to + shift });
+  };
+
+  const handleWheel = (event) => {
+    event.preventDefault();
+    const anchor = moveAt(event.clientX);
+    const factor = event.deltaY < 0 ? 1 / ZOOM_STEP : ZOOM_STEP;
+    const newSpan = Math.max(MIN_SPAN, span * factor);
+    const ratio = (anchor - start) / span;
+    setRange(anchor - ratio * newSpan, anchor + (1 - ratio) * newSpan);
+  };
+
+  const handleMouseMove = (event) => {
+    if (!dragRef.current) return;
+    const moved = (event.clientX - dragRef.current.clientX) / plotWidth * dragRef.current.span;
+    setRange(dragRef.current.start - moved, dragRef.current.start - moved + dragRef.current.span);
+  };
+
+  useEffect(() => {
+    // React's onWheel is passive, so preventDefault needs a native listener
+    const canvas = canvasRef.current;
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  });
+
+  useEffect(() => {
+    const ctx = canvasRef.current.getContext('2d');
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+    const visible = samples.filter(s => s.move >= start && s.move <= end);
+    const values = visible.flatMap(s => series.map(line => line.value(s))).filter(v => v !== null && v !== undefined);
+
+    let [yMin, yMax] = yRange || [Math.min(0, ...values), Math.max(0, ...values)];
+    if (yMax - yMin < 1e-9) yMax = yMin + 1;
+
+    const x = (move) => PADDING.left + (move - start) / span * plotWidth;
+    const y = (value) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+    // Axes and labels
+    ctx.strokeStyle = '#ccc';
+    ctx.strokeRect(PADDING.left, PADDING.top, plotWidth, plotHeight);
+    ctx.fillStyle = '#666';
+    ctx.font = '10px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.fillText(yMax.toFixed(2), PADDING.left - 4, PADDING.top + 8);
+    ctx.fillText(yMin.toFixed(2), PADDING.left - 4, PADDING.top + plotHeight);
+    ctx.textAlign = 'left';
+    ctx.fillText(String(Math.round(start)), PADDING.left, HEIGHT - 6);
+    ctx.textAlign = 'right';
+    ctx.fillText(String(Math.round(end)), WIDTH - PADDING.right, HEIGHT - 6);
+
+    // Reference lines such as the ±1 weight clamp
+    ctx.setLineDash([4, 4]);
+    guides.forEach(value => {
+      if (value < yMin || value > yMax) return;
+      ctx.beginPath();
+      ctx.moveTo(PADDING.left, y(value));
+      ctx.lineTo(WIDTH - PADDING.right, y(value));
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    // Series; missing values (e.g. a deleted connection) break the line
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(PADDING.left, PADDING.top, plotWidth, plotHeight);
+    ctx.clip();
+    series.forEach(line => {
+      ctx.strokeStyle = line.color;
+      ctx.beginPath();
+      let drawing = false;
+      visible.forEach(s => {
+        const value = line.value(s);
+        if (value === null || value === undefined) {
+          drawing = false;
+          return;
+        }
+        if (drawing) ctx.lineTo(x(s.move), y(value));
+        else ctx.moveTo(x(s.move), y(value));
+        drawing = true;
+      });
+      ctx.stroke();
+    });
+    ctx.restore();
+  }, [samples, series, start, end]);
+
+  return (
+    <div>
+      <h4 className="text-xs mb-1">{title}</h4>
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="border border-gray-200 cursor-ew-resize"
+        onMouseDown={(e) => { dragRef.current = { clientX: e.clientX, start, span }; }}
+        onMouseMove={handleMouseMove}
+        onMouseUp={() => { dragRef.current = null; }}
+        onMouseLeave={() => { dragRef.current = null; }}
+        onDoubleClick={() => onRangeChange(null)}
+      />
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-x-3 text-xs">
+          {series.map(line => (
+            <span key={line.label} style={{ color: line.color }}>{line.label}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeSeriesChart;
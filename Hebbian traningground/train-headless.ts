@@ -0,0 +1,168 @@
+// Headless batch trainer: runs a saved network in its world as fast as the CPU
+// allows, writes metrics and the trained network.
+//
+//   npx tsx train-headless.ts --network my-network.json --steps 100000 \
+//     --metrics metrics.csv --out trained.json
+//
+// Options:
+//   --network <file>     network file to train (required)
+//   --world <file>       JSON world config overriding the one in the network file
+//   --seed <n>           run seed (default: the network file's seed)
+//   --steps <n>          number of moves to run (default 10000)
+//   --episodes <n>       run until n episodes finished instead (needs an episodic world,
+//                        e.g. snake with classicMode or the predator arena);
+//                        --steps then caps the run (default 1000000)
+//   --substeps <n>       network ticks per move (default 4)
+//   --dt <seconds>       integration step per tick (default 0.05)
+//   --metrics <file>     .csv or .json metrics output
+//   --per step|episode   one metrics row per move or per finished episode (default episode
+//                        with --episodes, step otherwise)
+//   --out <file>         where to write the trained network
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parseNetworkFile, serializeNetworkFile } from './network-file';
+import { createWorld, getEnvironment, withEnvironmentDefaults } from './environments';
+import { getWeightStats } from './hebbian-network';
+import { parseSeed } from './random';
+import { DEFAULT_CLOCK, createSimulation, stepMove } from './simulation';
+
+const DEFAULTS = {
+  steps: 10000,
+  episodeStepLimit: 1000000
+};
+
+const usage = (message) => {
+  console.error(`${message}\nUsage: npx tsx train-headless.ts --network <file> [--steps n | --episodes n] [--metrics out.csv] [--out trained.json]`);
+  process.exit(1);
+};
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) usage(`Unexpected argument "${argv[i]}"`);
+    const key = argv[i].slice(2);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) usage(`Missing value for --${key}`);
+    args[key] = value;
+    i++;
+  }
+  return args;
+};
+
+const positiveNumber = (args, key, fallback) => {
+  if (args[key] === undefined) return fallback;
+  const value = Number(args[key]);
+  if (!Number.isFinite(value) || value <= 0) usage(`--${key} must be a positive number`);
+  return value;
+};
+
+const toCsv = (rows) => {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]);
+  return [columns.join(','), ...rows.map(row => columns.map(c => row[c]).join(','))].join('\n') + '\n';
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.network) usage('--network is required');
+
+  let loaded;
+  try {
+    loaded = parseNetworkFile(readFileSync(args.network, 'utf8'));
+  } catch (error) {
+    usage(`${args.network}: ${error.message}`);
+  }
+
+  let worldConfig = loaded.worldConfig;
+  if (args.world) {
+    try {
+      const config = JSON.parse(readFileSync(args.world, 'utf8'));
+      if (!getEnvironment(config)) throw new Error(`unknown environment ${JSON.stringify(config.environment)}`);
+      worldConfig = withEnvironmentDefaults(config);
+    } catch (error) {
+      usage(`${args.world}: ${error.message}`);
+    }
+  }
+  const seed = args.seed === undefined ? loaded.seed : parseSeed(args.seed);
+  if (seed === null) usage('--seed must be a non-negative integer');
+
+  const episodeTarget = args.episodes === undefined ? null : positiveNumber(args, 'episodes');
+  if (episodeTarget !== null && !getEnvironment(worldConfig).episodic(worldConfig)) {
+    usage('--episodes needs an episodic world, e.g. snake with classicMode enabled; use --steps instead');
+  }
+  const stepTarget = positiveNumber(args, 'steps', episodeTarget !== null ? DEFAULTS.episodeStepLimit : DEFAULTS.steps);
+  const clock = {
+    substeps: positiveNumber(args, 'substeps', DEFAULT_CLOCK.substeps),
+    dt: positiveNumber(args, 'dt', DEFAULT_CLOCK.dt)
+  };
+  const per = args.per || (episodeTarget !== null ? 'episode' : 'step');
+  if (per !== 'step' && per !== 'episode') usage('--per must be "step" or "episode"');
+
+  // Same clock as the browser, so a headless run matches one watched on screen
+  let simulation = createSimulation(loaded.network, createWorld(worldConfig, seed));
+  const rows = [];
+  const started = Date.now();
+
+  const done = () => simulation.world.stats.moves >= stepTarget
+    || (episodeTarget !== null && simulation.world.episodes.length >= episodeTarget);
+
+  while (!done()) {
+    const episodesBefore = simulation.world.episodes.length;
+    simulation = stepMove(simulation, clock);
+
+    const { network, world } = simulation;
+    const { stats } = world;
+    const rewardRate = stats.rewardsCollected / stats.moves || 0;
+    const { norm, meanAbs } = getWeightStats(network);
+
+    if (per === 'step') {
+      rows.push({
+        step: stats.moves,
+        episode: world.episode.number,
+        reward: world.lastReward,
+        rewardsCollected: stats.rewardsCollected,
+        rewardRate,
+        weightNorm: norm,
+        meanAbsWeight: meanAbs,
+        dopamine: network.dopamine || 0
+      });
+    } else if (world.episodes.length > episodesBefore) {
+      const finished = world.episodes[world.episodes.length - 1];
+      rows.push({
+        episode: finished.number,
+        length: finished.length === undefined ? '' : finished.length, // snake only
+        steps: finished.steps,
+        foodEaten: finished.foodEaten,
+        totalSteps: stats.moves,
+        rewardsCollected: stats.rewardsCollected,
+        rewardRate,
+        weightNorm: norm,
+        meanAbsWeight: meanAbs
+      });
+    }
+  }
+
+  const { network, world } = simulation;
+  if (episodeTarget !== null && world.episodes.length < episodeTarget) {
+    console.warn(`Stopped at the ${stepTarget} step limit after ${world.episodes.length} of ${episodeTarget} episodes`);
+  }
+
+  if (args.metrics) {
+    const text = args.metrics.endsWith('.json') ? JSON.stringify(rows, null, 2) : toCsv(rows);
+    writeFileSync(args.metrics, text);
+  }
+  if (args.out) {
+    writeFileSync(args.out, serializeNetworkFile({ network, worldConfig, seed }));
+  }
+
+  const seconds = (Date.now() - started) / 1000;
+  const { stats } = world;
+  console.log(
+    `${stats.moves} steps, ${world.episodes.length} episodes in ${seconds.toFixed(1)}s ` +
+    `(${Math.round(stats.moves / seconds)} steps/s); ` +
+    `rewards ${stats.rewardsCollected}, reward rate ${(stats.rewardsCollected / stats.moves || 0).toFixed(3)}, ` +
+    `weight norm ${getWeightStats(network).norm.toFixed(3)}`
+  );
+};
+
+main();
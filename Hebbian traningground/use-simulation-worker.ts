@@ -0,0 +1,116 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { applyNetworkPatch } from './network-patches';
+import { mergeSnapshots, applySnapshot } from './simulation-snapshot';
+
+// Runs the simulation in simulation-worker.ts and mirrors it into React state.
+// Snapshots only carry what changed (see simulation-snapshot.ts); they are
+// merged as they arrive and applied at most once per animation frame.
+// Network edits are patches (see network-patches.ts) applied here straight
+// away and sent on to the worker's live network; networks in snapshots taken
+// before the worker saw the last edit are skipped so the edit doesn't flicker
+// back. Other commands leave the network alone and don't hold snapshots back.
+// Edits that draw from the network's generator are built by the worker on
+// its live network instead (see DRAWING_EDITS in editor-commands.ts) and
+// applied here once it has sent them back.
+// `networkRevision` counts those edits: learning changes weights and
+// activities but never the topology, so anything derived from the topology
+// can be kept until it changes. `recording` is the last recording the worker
+// finished (see recording.ts).
+export const useSimulationWorker = (createInitial) => {
+  const [simulation, setSimulation] = useState(createInitial);
+  const [recording, setRecording] = useState(null);
+  const [networkRevision, setNetworkRevision] = useState(0);
+  const latestRef = useRef(simulation);
+  const workerRef = useRef(null);
+  const queueRef = useRef([]); // commands sent before the worker started
+  const revisionRef = useRef(0); // commands sent
+  const networkEditRef = useRef(0); // revision of the last network edit
+  const pendingRef = useRef(null); // snapshots not applied yet, merged
+  const editsRef = useRef(new Map()); // revision -> resolve, for edits the worker is building
+  const frameRef = useRef(null);
+
+  // Returns the command's revision
+  const send = useCallback((command) => {
+    revisionRef.current += 1;
+    const message = { ...command, revision: revisionRef.current };
+    if (workerRef.current) {
+      workerRef.current.postMessage(message);
+    } else {
+      queueRef.current.push(message);
+    }
+    return revisionRef.current;
+  }, []);
+
+  const applyLocally = (next) => {
+    latestRef.current = next;
+    setSimulation(next);
+  };
+
+  // The worker's edits arrive before any snapshot that has them
+  const finishEdit = ({ revision, edit }) => {
+    const resolve = editsRef.current.get(revision);
+    editsRef.current.delete(revision);
+    if (edit) {
+      const prev = latestRef.current;
+      applyLocally({ ...prev, network: applyNetworkPatch(prev.network, edit.command.patch) });
+      setNetworkRevision(count => count + 1);
+    }
+    if (resolve) resolve(edit);
+  };
+
+  useEffect(() => {
+    const worker = new Worker(new URL('./simulation-worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }) => {
+      if (data.type === 'recording') setRecording(data.recording);
+      if (data.type === 'edited') finishEdit(data);
+      if (data.type !== 'snapshot') return;
+      const pending = pendingRef.current;
+      pendingRef.current = pending
+        ? { revision: data.revision, snapshot: mergeSnapshots(pending.snapshot, data.snapshot) }
+        : data;
+      if (frameRef.current) return;
+      frameRef.current = requestAnimationFrame(() => {
+        frameRef.current = null;
+        const { revision, snapshot } = pendingRef.current;
+        pendingRef.current = null;
+        applyLocally(applySnapshot(latestRef.current, snapshot, revision >= networkEditRef.current));
+      });
+    };
+
+    worker.postMessage({ type: 'init', simulation: latestRef.current, revision: revisionRef.current });
+    queueRef.current.forEach(message => worker.postMessage(message));
+    queueRef.current = [];
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, []);
+
+  // Replace the network outright, e.g. with a loaded one
+  const setNetwork = useCallback((network) => {
+    applyLocally({ ...latestRef.current, network });
+    setNetworkRevision(revision => revision + 1);
+    networkEditRef.current = send({ type: 'setNetwork', network });
+  }, [send]);
+
+  // Resolves with { command, ids } once the worker has made the edit, or
+  // with null when there was nothing to do
+  const editNetwork = useCallback((edit) => new Promise(resolve => {
+    const revision = send({ type: 'editNetwork', edit });
+    networkEditRef.current = revision;
+    editsRef.current.set(revision, resolve);
+  }), [send]);
+
+  const patchNetwork = useCallback((patch) => {
+    const prev = latestRef.current;
+    applyLocally({ ...prev, network: applyNetworkPatch(prev.network, patch) });
+    setNetworkRevision(revision => revision + 1);
+    networkEditRef.current = send({ type: 'patchNetwork', patch });
+  }, [send]);
+
+  return { simulation, send, setNetwork, patchNetwork, editNetwork, networkRevision, recording };
+};
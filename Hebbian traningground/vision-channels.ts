@@ -0,0 +1,73 @@
+// Sensory channels the snake can be given. Grid channels sample every cell of
+// the vision window and get one input neuron per cell; the other channels have
+// a fixed list of neurons. `sense` receives the world cell under a vision
+// cell, or null when that cell lies outside a walled world.
+
+// Grid distance, measured around the edges when the world wraps
+const manhattan = (a, b, config) => {
+  const dx = Math.abs(a.x - b.x);
+  const dy = Math.abs(a.y - b.y);
+  if (config.boundary === 'walls') return dx + dy;
+  return Math.min(dx, config.gridSize - dx) + Math.min(dy, config.gridSize - dy);
+};
+
+const hasObstacle = (state, cell) =>
+  (state.config.obstacles || []).some(o => o.x === cell.x && o.y === cell.y);
+
+export const VISION_CHANNELS = {
+  food: {
+    name: 'Food',
+    kind: 'grid',
+    color: '#4CAF50',
+    neuronId: (x, y) => `vision_${x}_${y}`,
+    sense: (state, cell) => cell && state.rewards.some(r => r.x === cell.x && r.y === cell.y) ? 1 : 0
+  },
+
+  obstacle: {
+    name: 'Walls & obstacles',
+    kind: 'grid',
+    color: '#607D8B',
+    neuronId: (x, y) => `wall_${x}_${y}`,
+    sense: (state, cell) => !cell || hasObstacle(state, cell) ? 1 : 0
+  },
+
+  body: {
+    name: 'Own body',
+    kind: 'grid',
+    color: '#A5D6A7',
+    neuronId: (x, y) => `body_${x}_${y}`,
+    sense: (state, cell) => cell && state.snake.body.some(s => s.x === cell.x && s.y === cell.y) ? 1 : 0
+  },
+
+  gradient: {
+    name: 'Food distance',
+    kind: 'grid',
+    color: '#FF9800',
+    neuronId: (x, y) => `smell_${x}_${y}`,
+    // 1 on food, falling off as 1 / (1 + distance) to the nearest reward
+    sense: (state, cell) => {
+      if (!cell || state.rewards.length === 0) return 0;
+      const distance = Math.min(...state.rewards.map(r => manhattan(cell, r, state.config)));
+      return 1 / (1 + distance);
+    }
+  },
+
+  heading: {
+    name: 'Heading',
+    kind: 'list',
+    color: '#009688',
+    ids: ['heading_up', 'heading_down', 'heading_left', 'heading_right'],
+    senseAll: (state) => ({
+      heading_up: state.snake.direction === 'up' ? 1 : 0,
+      heading_down: state.snake.direction === 'down' ? 1 : 0,
+      heading_left: state.snake.direction === 'left' ? 1 : 0,
+      heading_right: state.snake.direction === 'right' ? 1 : 0
+    })
+  }
+};
+
+export const DEFAULT_VISION_CHANNELS = ['food'];
+
+// Enabled channels in registry order, so layouts don't depend on click order
+export const getEnabledChannels = (config) =>
+  Object.keys(VISION_CHANNELS).filter(key => (config.visionChannels || DEFAULT_VISION_CHANNELS).includes(key));
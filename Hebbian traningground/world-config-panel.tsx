@@ -0,0 +1,131 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { BOUNDARIES } from './snake-world';
+import { VISION_CHANNELS, getEnabledChannels } from './vision-channels';
+import { OBSTACLE_LAYOUTS } from './obstacle-layouts';
+
+// Settings that shape the world and the snake's senses. Changing the vision
+// radius or channels regenerates the network's input layer (see HebbianSnake).
+const WorldConfigPanel = ({ worldConfig, onWorldConfigChange, seed }) => {
+  const { gridSize, visionSize, rewardDensity, classicMode, boundary } = worldConfig;
+
+  const update = (changes) => onWorldConfigChange({ ...worldConfig, ...changes });
+
+  const toggleChannel = (key, enabled) => {
+    const channels = getEnabledChannels(worldConfig).filter(c => c !== key);
+    update({ visionChannels: enabled ? [...channels, key] : channels });
+  };
+
+  // Obstacles outside a smaller grid would be unreachable, so drop them
+  const setGridSize = (value) => {
+    update({
+      gridSize: value,
+      obstacles: (worldConfig.obstacles || []).filter(o => o.x < value && o.y < value)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-medium">World Configuration</h3>
+
+      <div>
+        <h4 className="text-xs mb-2">Grid Size: {gridSize}</h4>
+        <Slider
+          value={[gridSize]}
+          onValueChange={([value]) => setGridSize(value)}
+          min={8}
+          max={40}
+          step={1}
+        />
+      </div>
+
+      <div>
+        <h4 className="text-xs mb-2">Vision Radius: {Math.floor(visionSize / 2)} ({visionSize}×{visionSize})</h4>
+        <Slider
+          value={[Math.floor(visionSize / 2)]}
+          onValueChange={([value]) => update({ visionSize: value * 2 + 1 })}
+          min={1}
+          max={4}
+          step={1}
+        />
+      </div>
+
+      <div>
+        <h4 className="text-xs mb-2">Reward Density</h4>
+        <Slider
+          value={[rewardDensity]}
+          onValueChange={([value]) => update({ rewardDensity: value })}
+          min={1}
+          max={20}
+          step={1}
+        />
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <h4 className="text-xs mb-2">Boundary</h4>
+          <select
+            className="w-full p-2 border rounded"
+            value={boundary}
+            onChange={(e) => update({ boundary: e.target.value })}
+          >
+            {Object.entries(BOUNDARIES).map(([key, name]) => (
+              <option key={key} value={key}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1">
+          <h4 className="text-xs mb-2">Obstacle Layout</h4>
+          <select
+            className="w-full p-2 border rounded"
+            value=""
+            onChange={(e) => update({ obstacles: OBSTACLE_LAYOUTS[e.target.value].generate(gridSize, seed) })}
+          >
+            <option value="" disabled>Apply layout…</option>
+            {Object.entries(OBSTACLE_LAYOUTS).map(([key, layout]) => (
+              <option key={key} value={key}>{layout.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span>
+          {(worldConfig.obstacles || []).length} obstacle cells. Click the grid while paused to paint.
+        </span>
+        <Button size="sm" variant="outline" onClick={() => update({ obstacles: [] })}>
+          Clear Obstacles
+        </Button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={!!classicMode}
+          onChange={(e) => update({ classicMode: e.target.checked })}
+        />
+        Classic Snake (growing body, self-collision ends the episode)
+      </label>
+
+      <div>
+        <h4 className="text-xs mb-2">Vision Channels</h4>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+          {Object.entries(VISION_CHANNELS).map(([key, channel]) => (
+            <label key={key} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={getEnabledChannels(worldConfig).includes(key)}
+                onChange={(e) => toggleChannel(key, e.target.checked)}
+              />
+              {channel.name}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorldConfigPanel;